@@ -0,0 +1,29 @@
+import type { DialectId } from './dialects'
+import type { QuoteStyle } from './services/string-extractor'
+import { detectDialect } from './dialects'
+import { extractLiteralsFromText } from './services/string-extractor'
+
+/**
+ * Text read from the clipboard and the dialect to unescape it with
+ */
+export interface ClipboardInput {
+  text: string
+  dialect: DialectId
+  /** Quote style of the string literal, when the text was copied with it */
+  quoteStyle?: QuoteStyle
+}
+
+/**
+ * Get the text to unescape from the clipboard text: the body of a string
+ * literal copied whole, delimiters included, or the text exactly as it is
+ *
+ * @param text The clipboard text
+ */
+export function parseClipboardText(text: string): ClipboardInput {
+  const literals = extractLiteralsFromText(text)
+  if (literals.length === 1 && literals[0].start === 0 && literals[0].end === text.length) {
+    const [{ contentStart, contentEnd, quoteStyle }] = literals
+    return { text: text.slice(contentStart, contentEnd), dialect: detectDialect('plaintext', quoteStyle), quoteStyle }
+  }
+  return { text, dialect: 'generic' }
+}
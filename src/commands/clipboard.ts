@@ -0,0 +1,120 @@
+import type { ClipboardInput } from '../clipboard'
+import type { ProcessedText } from './unescape-preview'
+import { useCommand } from 'reactive-vscode'
+import { env, l10n, window } from 'vscode'
+import { parseClipboardText } from '../clipboard'
+import { pickEscapeTarget, toLiteral } from './escape'
+import { describeIssueKind, getTextToProcess, processText, showPreview } from './unescape-preview'
+
+const STATUS_MESSAGE_TIMEOUT = 3000
+
+/**
+ * Read the clipboard text, warning if it is empty
+ */
+async function readClipboard(): Promise<string | null> {
+  const text = await env.clipboard.readText()
+  if (!text) {
+    window.showWarningMessage(l10n.t('Clipboard is empty'))
+    return null
+  }
+  return text
+}
+
+/**
+ * Read the clipboard text to unescape, without the delimiters of a string
+ * literal copied whole
+ */
+async function readClipboardInput(): Promise<ClipboardInput | null> {
+  const text = await readClipboard()
+  return text === null ? null : parseClipboardText(text)
+}
+
+/**
+ * Read the selection or the string literal at the cursor, or the clipboard
+ * when there is neither
+ */
+async function readEditorOrClipboard(): Promise<ClipboardInput | null> {
+  return getTextToProcess() ?? readClipboardInput()
+}
+
+/**
+ * Unescape text, showing the error if it is not valid for the format
+ */
+function process(input: ClipboardInput, json: boolean): ProcessedText | null {
+  try {
+    const processed = processText(input.text, input.dialect, { json, full: false, quoteStyle: input.quoteStyle })
+    const { issues } = processed
+    if (issues.length > 0) {
+      window.showWarningMessage(
+        l10n.t('Found {0} malformed escape sequence(s): {1}', issues.length, describeIssueKind(issues[0].kind)),
+      )
+    }
+    return processed
+  }
+  catch (error) {
+    window.showErrorMessage(
+      error instanceof Error ? error.message : l10n.t('Invalid JSON format'),
+    )
+    return null
+  }
+}
+
+/**
+ * Register the commands reading text from the clipboard, or writing the
+ * result to it, which work without an editor
+ */
+export function useClipboardCommands(): void {
+  /**
+   * Preview the unescaped clipboard text
+   */
+  async function previewClipboard(json: boolean): Promise<void> {
+    const input = await readClipboardInput()
+    const processed = input && process(input, json)
+    if (processed) {
+      await showPreview(processed.content, processed.language, {
+        name: 'clipboard',
+        decoder: json ? l10n.t('Clipboard · JSON') : l10n.t('Clipboard'),
+      })
+    }
+  }
+
+  /**
+   * Copy the unescaped text to the clipboard instead of showing it
+   */
+  async function copyUnescaped(json: boolean): Promise<void> {
+    const input = await readEditorOrClipboard()
+    const processed = input && process(input, json)
+    if (processed) {
+      await env.clipboard.writeText(processed.content)
+      window.setStatusBarMessage(
+        json ? l10n.t('Formatted JSON copied to clipboard') : l10n.t('Unescaped text copied to clipboard'),
+        STATUS_MESSAGE_TIMEOUT,
+      )
+    }
+  }
+
+  useCommand('unescaper.previewClipboard', () => previewClipboard(false))
+  useCommand('unescaper.previewJsonClipboard', () => previewClipboard(true))
+  useCommand('unescaper.copyUnescaped', () => copyUnescaped(false))
+  useCommand('unescaper.copyJson', () => copyUnescaped(true))
+
+  // Escape the selection, or the clipboard text, and copy the literal
+  useCommand('unescaper.copyEscaped', async () => {
+    const editor = window.activeTextEditor
+    const selection = editor?.selection
+    const input = editor && selection && !selection.isEmpty
+      ? editor.document.getText(selection)
+      : await readClipboard()
+    if (input === null) {
+      return
+    }
+
+    const target = await pickEscapeTarget()
+    if (!target) {
+      return
+    }
+
+    await env.clipboard.writeText(toLiteral(input, target))
+    window.setStatusBarMessage(l10n.t('Escaped text copied to clipboard'), STATUS_MESSAGE_TIMEOUT)
+  })
+}
@@ -0,0 +1,140 @@
+import type { QuickPickItem } from 'vscode'
+import type { Decoder } from '../decoders'
+import type { DecodeStep } from '../smart-decode'
+import type { TextToProcess } from './unescape-preview'
+import { useCommand } from 'reactive-vscode'
+import { l10n, window } from 'vscode'
+import { config } from '../config'
+import { DECODERS } from '../decoders'
+import { formatBytes, smartDecode } from '../smart-decode'
+import { getTextToProcess, showPreview } from './unescape-preview'
+
+const SAMPLE_LENGTH = 60
+
+interface DecoderItem extends QuickPickItem {
+  decoder: Decoder
+  decoded: string | null
+}
+
+interface StepItem extends QuickPickItem {
+  /** Number of steps to keep */
+  count: number
+}
+
+/**
+ * Describe a decoding chain, e.g. "base64 → gzip → json"
+ */
+function formatChain(steps: DecodeStep[]): string {
+  return steps.map(step => step.id).join(' → ')
+}
+
+/**
+ * Show the text after the first `count` steps of a decoding chain, naming the
+ * preview after the chain
+ */
+async function showSteps(source: TextToProcess, steps: DecodeStep[], count: number): Promise<void> {
+  const last = steps[count - 1]
+  if (!last) {
+    await showPreview(source.text, undefined, { name: 'original', source })
+    return
+  }
+
+  const value = typeof last.value === 'string' ? last.value : formatBytes(last.value)
+  const language = last.final ? 'json' : undefined
+  await showPreview(value, language, {
+    name: steps.slice(0, count).map(step => step.id).join('-'),
+    decoder: formatChain(steps.slice(0, count)),
+    source,
+  })
+}
+
+/**
+ * Tell which chain is shown, and let the user go back to an earlier step
+ */
+async function offerUndo(source: TextToProcess, steps: DecodeStep[], count: number): Promise<void> {
+  const undo = l10n.t('Undo Steps...')
+  const message = count === 0
+    ? l10n.t('Showing the original text')
+    : l10n.t('Decoded: {0}', formatChain(steps.slice(0, count)))
+  if (await window.showInformationMessage(message, undo) !== undo) {
+    return
+  }
+
+  const items: StepItem[] = [
+    { label: l10n.t('Original text'), count: 0 },
+    ...steps.map((step, index) => ({ label: formatChain(steps.slice(0, index + 1)), count: index + 1 })),
+  ].map(item => ({ ...item, description: item.count === count ? l10n.t('Shown') : undefined }))
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select the step to go back to'),
+  })
+  if (!picked) {
+    return
+  }
+
+  await showSteps(source, steps, picked.count)
+  await offerUndo(source, steps, picked.count)
+}
+
+/**
+ * Register the commands decoding text with a decoder picked by the user, or
+ * with the decoders detected automatically
+ */
+export function useDecodeCommands(): void {
+  useCommand('unescaper.decodeWith', async () => {
+    const toProcess = getTextToProcess()
+
+    if (!toProcess) {
+      window.showWarningMessage(
+        l10n.t('No text selected or found at cursor position'),
+      )
+      return
+    }
+
+    // Show what each decoder makes of the text to help picking one
+    const items: DecoderItem[] = Object.values(DECODERS).map((decoder) => {
+      const decoded = decoder.decode(toProcess.text, toProcess.dialect)
+      return {
+        decoder,
+        decoded,
+        label: l10n.t(decoder.label),
+        description: decoded === null
+          ? l10n.t('Not valid for this decoder')
+          : decoded.replace(/\s+/g, ' ').slice(0, SAMPLE_LENGTH),
+      }
+    })
+
+    const picked = await window.showQuickPick(items, {
+      placeHolder: l10n.t('Select a decoder'),
+    })
+    if (!picked) {
+      return
+    }
+
+    if (picked.decoded === null) {
+      window.showWarningMessage(l10n.t('The text is not valid {0}', l10n.t(picked.decoder.label)))
+      return
+    }
+
+    await showPreview(picked.decoded, undefined, { decoder: l10n.t(picked.decoder.label), source: toProcess })
+  })
+  useCommand('unescaper.smartDecode', async () => {
+    const toProcess = getTextToProcess()
+
+    if (!toProcess) {
+      window.showWarningMessage(
+        l10n.t('No text selected or found at cursor position'),
+      )
+      return
+    }
+
+    const steps = smartDecode(toProcess.text, { dialect: toProcess.dialect, maxSteps: config.maxDepth })
+    if (steps.length === 0) {
+      window.showWarningMessage(l10n.t('No known encoding detected'))
+      return
+    }
+
+    await showSteps(toProcess, steps, steps.length)
+    await offerUndo(toProcess, steps, steps.length)
+  })
+}
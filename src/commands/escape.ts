@@ -0,0 +1,82 @@
+import type { QuickPickItem } from 'vscode'
+import type { EscapeTarget } from '../escape'
+import { useCommand } from 'reactive-vscode'
+import { env, l10n, window } from 'vscode'
+import { escapeLiteral } from '../escape'
+
+interface EscapeTargetItem extends QuickPickItem {
+  target: EscapeTarget
+}
+
+/**
+ * Ask the user which literal style to escape into
+ */
+export async function pickEscapeTarget(): Promise<EscapeTarget | undefined> {
+  const items: EscapeTargetItem[] = [
+    { target: 'json', label: l10n.t('JSON / JavaScript (double quotes)'), description: '"..."' },
+    { target: 'single', label: l10n.t('JavaScript (single quotes)'), description: '\'...\'' },
+    { target: 'template', label: l10n.t('JavaScript template literal'), description: '`...`' },
+    { target: 'python', label: l10n.t('Python'), description: '"..."' },
+    { target: 'go', label: l10n.t('Go'), description: '"..."' },
+    { target: 'rust-raw', label: l10n.t('Rust raw string'), description: 'r#"..."#' },
+  ]
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select the target string literal style'),
+  })
+  return picked?.target
+}
+
+/**
+ * Escape text into a complete string literal of the given style
+ */
+export function toLiteral(text: string, target: EscapeTarget): string {
+  const { open, body, close } = escapeLiteral(text, target)
+  return `${open}${body}${close}`
+}
+
+/**
+ * Register the escape commands
+ */
+export function useEscapeCommands(): void {
+  // Escape the selected text in place
+  useCommand('unescaper.escape', async () => {
+    const editor = window.activeTextEditor
+    const selections = editor?.selections.filter(selection => !selection.isEmpty) ?? []
+
+    if (!editor || selections.length === 0) {
+      window.showWarningMessage(l10n.t('No text selected'))
+      return
+    }
+
+    const target = await pickEscapeTarget()
+    if (!target) {
+      return
+    }
+
+    const { document } = editor
+    await editor.edit((editBuilder) => {
+      for (const selection of selections) {
+        editBuilder.replace(selection, toLiteral(document.getText(selection), target))
+      }
+    })
+  })
+
+  // Escape the clipboard text and copy the result back
+  useCommand('unescaper.escapeClipboard', async () => {
+    const text = await env.clipboard.readText()
+
+    if (!text) {
+      window.showWarningMessage(l10n.t('Clipboard is empty'))
+      return
+    }
+
+    const target = await pickEscapeTarget()
+    if (!target) {
+      return
+    }
+
+    await env.clipboard.writeText(toLiteral(text, target))
+    window.showInformationMessage(l10n.t('Escaped text copied to clipboard'))
+  })
+}
@@ -0,0 +1,82 @@
+import type { LogRecord } from '../log-lines'
+import { useCommand } from 'reactive-vscode'
+import { l10n, ProgressLocation, window } from 'vscode'
+import { config } from '../config'
+import { parseLogLine } from '../log-lines'
+import { formatJson, showPreview } from './unescape-preview'
+
+/**
+ * Number of lines processed before yielding to the extension host
+ */
+const CHUNK_SIZE = 1000
+
+/**
+ * Render a record: a separator naming its line, the remaining fields as
+ * JSON, then each multi-line field as an indented block
+ */
+function renderRecord(record: LogRecord, line: number): string {
+  const parts = [`──── ${l10n.t('Line {0}', line + 1)} ────`]
+  if (Object.keys(record.rest).length > 0) {
+    parts.push(formatJson(JSON.stringify(record.rest)).content)
+  }
+  for (const { path, text } of record.fields) {
+    parts.push(`${path}:`, ...text.split(/\r?\n/).map(textLine => `  ${textLine}`))
+  }
+  return parts.join('\n')
+}
+
+/**
+ * Register the command unescaping every line of a log or JSON Lines file
+ */
+export function useLogLinesCommand(): void {
+  useCommand('unescaper.previewLogLines', async () => {
+    const editor = window.activeTextEditor
+    if (!editor) {
+      window.showWarningMessage(l10n.t('No active editor'))
+      return
+    }
+
+    // Process the lines of the selection, or the whole document
+    const { document, selection } = editor
+    const first = selection.isEmpty ? 0 : selection.start.line
+    const last = selection.isEmpty
+      ? document.lineCount - 1
+      : selection.end.line - Number(selection.end.character === 0 && selection.end.line > first)
+    const fields = config['logLines.fields']
+
+    const content = await window.withProgress({
+      location: ProgressLocation.Notification,
+      title: l10n.t('Unescaping log lines'),
+      cancellable: true,
+    }, async (progress, token) => {
+      const output: string[] = []
+
+      for (let start = first; start <= last; start += CHUNK_SIZE) {
+        if (token.isCancellationRequested) {
+          return undefined
+        }
+
+        const end = Math.min(start + CHUNK_SIZE - 1, last)
+        for (let line = start; line <= end; line++) {
+          // Lines that are not JSON records pass through unchanged
+          const text = document.lineAt(line).text
+          const record = parseLogLine(text, { fields })
+          output.push(record ? renderRecord(record, line) : text)
+        }
+
+        progress.report({ increment: (end - start + 1) / (last - first + 1) * 100 })
+        // Let the extension host handle other work between chunks
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+
+      return output.join('\n')
+    })
+
+    if (content !== undefined) {
+      await showPreview(content, undefined, {
+        decoder: l10n.t('Log Lines'),
+        source: { document, offset: document.offsetAt(document.lineAt(first).range.start) },
+      })
+    }
+  })
+}
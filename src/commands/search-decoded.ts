@@ -0,0 +1,201 @@
+import type { CancellationToken, QuickPickItem, Uri } from 'vscode'
+import type { DecodedMatch } from '../search'
+import { useCommand } from 'reactive-vscode'
+import { l10n, Position, ProgressLocation, QuickPickItemKind, Range, window, workspace } from 'vscode'
+import { formatSnippet, languageIdForPath, parseQuery, searchDecodedText } from '../search'
+
+/**
+ * Larger files are skipped, they are rarely sources
+ */
+const MAX_FILE_SIZE = 1024 * 1024
+const MAX_RESULTS = 1000
+/**
+ * Number of files scanned before yielding to the extension host
+ */
+const BATCH_SIZE = 20
+
+const decoder = new TextDecoder()
+
+/**
+ * A match and the range of its literal content in the file
+ */
+interface LocatedMatch {
+  match: DecodedMatch
+  range: Range
+}
+
+/**
+ * Matches found in one file
+ */
+interface FileMatches {
+  uri: Uri
+  matches: LocatedMatch[]
+}
+
+interface MatchItem extends QuickPickItem {
+  uri?: Uri
+  /** Range of the literal content in the file */
+  range?: Range
+}
+
+/**
+ * Build a glob from the `files.exclude` and `search.exclude` settings. An
+ * exclude glob given to `findFiles` replaces the `files.exclude` default, so
+ * both are merged into it.
+ */
+function getExcludeGlob(): string | undefined {
+  const patterns = ['files', 'search'].flatMap(section =>
+    Object.entries(workspace.getConfiguration(section).get<Record<string, unknown>>('exclude', {}))
+      .filter(([, enabled]) => enabled === true)
+      .map(([pattern]) => pattern))
+  const unique = [...new Set(patterns)]
+  return unique.length > 0 ? `{${unique.join(',')}}` : undefined
+}
+
+/**
+ * Read the text and language of a file, from its editor if it is open so
+ * that unsaved changes are searched, or null for large and binary files
+ */
+async function readFile(uri: Uri): Promise<{ text: string, languageId?: string } | null> {
+  const document = workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+  if (document) {
+    return { text: document.getText(), languageId: document.languageId }
+  }
+
+  try {
+    if ((await workspace.fs.stat(uri)).size > MAX_FILE_SIZE) {
+      return null
+    }
+    const bytes = await workspace.fs.readFile(uri)
+    return bytes.includes(0) ? null : { text: decoder.decode(bytes), languageId: languageIdForPath(uri.path) }
+  }
+  catch {
+    // Files deleted or unreadable since they were listed
+    return null
+  }
+}
+
+/**
+ * Scan the workspace files for string literals matching a pattern once
+ * unescaped, in batches so that the extension host stays responsive
+ *
+ * @returns The matches by file, or undefined if cancelled
+ */
+async function searchWorkspace(
+  pattern: RegExp,
+  report: (increment: number) => void,
+  token: CancellationToken,
+): Promise<FileMatches[] | undefined> {
+  const files = await workspace.findFiles('**/*', getExcludeGlob(), undefined, token)
+  const results: FileMatches[] = []
+  let count = 0
+
+  for (let start = 0; start < files.length && count < MAX_RESULTS; start += BATCH_SIZE) {
+    const batch = files.slice(start, start + BATCH_SIZE)
+    for (const uri of batch) {
+      if (token.isCancellationRequested) {
+        return undefined
+      }
+
+      const file = await readFile(uri)
+      const matches = file ? searchDecodedText(file.text, file.languageId, pattern) : []
+      if (matches.length > 0) {
+        results.push({ uri, matches: locateMatches(file!.text, matches) })
+        count += matches.length
+      }
+    }
+
+    report(batch.length / files.length * 100)
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  return token.isCancellationRequested ? undefined : results
+}
+
+/**
+ * Convert the offsets of matches, in text order, to ranges in a single pass
+ * over the text, so that the text need not be kept
+ */
+function locateMatches(text: string, matches: DecodedMatch[]): LocatedMatch[] {
+  let line = 0
+  let lineStart = 0
+  let scanned = 0
+  const toPosition = (offset: number): Position => {
+    for (; scanned < offset; scanned++) {
+      if (text[scanned] === '\n') {
+        line++
+        lineStart = scanned + 1
+      }
+    }
+    return new Position(line, offset - lineStart)
+  }
+
+  return matches.map(match => ({
+    match,
+    range: new Range(toPosition(match.contentStart), toPosition(match.contentEnd)),
+  }))
+}
+
+/**
+ * List the matches by file, with the unescaped text around each match
+ */
+function createItems(results: FileMatches[]): MatchItem[] {
+  return results.flatMap(({ uri, matches }) => [
+    { label: workspace.asRelativePath(uri), kind: QuickPickItemKind.Separator },
+    ...matches.map(({ match, range }) => ({
+      label: formatSnippet(match),
+      description: `${range.start.line + 1}:${range.start.character + 1}`,
+      uri,
+      range,
+    })),
+  ])
+}
+
+/**
+ * Register the command searching the unescaped content of the string
+ * literals of the workspace
+ */
+export function useSearchDecodedCommand(): void {
+  useCommand('unescaper.searchDecoded', async () => {
+    const query = await window.showInputBox({
+      prompt: l10n.t('Text to find in unescaped string literals, or /pattern/flags for a regular expression'),
+      placeHolder: 'Hello World',
+    })
+    if (!query) {
+      return
+    }
+
+    const pattern = parseQuery(query)
+    if (!pattern) {
+      window.showErrorMessage(l10n.t('Invalid regular expression: {0}', query))
+      return
+    }
+
+    const results = await window.withProgress({
+      location: ProgressLocation.Notification,
+      title: l10n.t('Searching unescaped string literals'),
+      cancellable: true,
+    }, (progress, token) => searchWorkspace(pattern, increment => progress.report({ increment }), token))
+
+    if (!results) {
+      return
+    }
+    if (results.length === 0) {
+      window.showInformationMessage(l10n.t('No string literals match {0}', query))
+      return
+    }
+
+    const count = results.reduce((total, { matches }) => total + matches.length, 0)
+    const picked = await window.showQuickPick(createItems(results), {
+      placeHolder: count >= MAX_RESULTS
+        ? l10n.t('Showing the first {0} matches, select one to go to', count)
+        : l10n.t('{0} matches, select one to go to', count),
+      matchOnDescription: true,
+    })
+    if (!picked?.uri || !picked.range) {
+      return
+    }
+
+    await window.showTextDocument(picked.uri, { selection: picked.range })
+  })
+}
@@ -0,0 +1,137 @@
+import type { TextEditor, TextEditorSelectionChangeEvent, Uri } from 'vscode'
+import type { UnescapeSegment } from '../unescape'
+import { useCommand, useDisposable } from 'reactive-vscode'
+import { l10n, Range, Selection, TextEditorRevealType, TextEditorSelectionChangeKind, ThemeColor, ViewColumn, window, workspace } from 'vscode'
+import { mapUnescapeRange, unescapeDetailed, unescapeDetailedForQuoteStyle } from '../unescape'
+import { getTextToProcess, showPreview } from './unescape-preview'
+
+/**
+ * An unescaped preview shown next to its raw source, with the mapping between
+ * their offsets
+ */
+interface SideBySideView {
+  sourceUri: Uri
+  /** Version of the source the mapping was made for */
+  version: number
+  /** Offset of the raw text in the source */
+  offset: number
+  /** Length of the raw text */
+  length: number
+  previewUri: Uri
+  segments: UnescapeSegment[]
+}
+
+const views = new Map<string, SideBySideView>()
+
+/**
+ * Find the visible editor of a document
+ */
+function findEditor(uri: Uri): TextEditor | undefined {
+  return window.visibleTextEditors.find(editor => editor.document.uri.toString() === uri.toString())
+}
+
+/**
+ * Register the command showing the unescaped text next to the raw text, with
+ * the selection of each side highlighted in the other
+ */
+export function useSideBySideCommand(): void {
+  const highlight = useDisposable(window.createTextEditorDecorationType({
+    backgroundColor: new ThemeColor('editor.findMatchHighlightBackground'),
+    borderColor: new ThemeColor('editor.findMatchBorder'),
+    borderStyle: 'solid',
+    borderWidth: '1px',
+  }))
+
+  /**
+   * Highlight a range of a document, given as offsets
+   */
+  const highlightRange = (editor: TextEditor | undefined, start: number, end: number): void => {
+    if (!editor) {
+      return
+    }
+    const range = new Range(editor.document.positionAt(start), editor.document.positionAt(end))
+    editor.setDecorations(highlight, [range])
+    editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport)
+  }
+
+  /**
+   * Highlight the text matching the selection on the other side
+   */
+  const handleSelectionChange = ({ textEditor, selections, kind }: TextEditorSelectionChangeEvent): void => {
+    const { document } = textEditor
+    const [selection] = selections
+    const start = document.offsetAt(selection.start)
+    const end = document.offsetAt(selection.end)
+
+    for (const view of views.values()) {
+      const source = findEditor(view.sourceUri)
+      // The mapping no longer matches an edited source
+      const current = source?.document.version === view.version
+
+      if (document.uri.toString() === view.previewUri.toString()) {
+        if (!source || !current) {
+          continue
+        }
+        const mapped = mapUnescapeRange(view.segments, start, end, 'output')
+        highlightRange(source, view.offset + mapped.start, view.offset + mapped.end)
+
+        // Clicking in the preview moves the cursor to the matching spot
+        if (kind === TextEditorSelectionChangeKind.Mouse && selection.isEmpty) {
+          const position = source.document.positionAt(view.offset + mapped.start)
+          source.selection = new Selection(position, position)
+        }
+      }
+      else if (document.uri.toString() === view.sourceUri.toString()) {
+        const preview = findEditor(view.previewUri)
+        if (!preview) {
+          continue
+        }
+        if (!current || start < view.offset || end > view.offset + view.length) {
+          preview.setDecorations(highlight, [])
+          continue
+        }
+        const mapped = mapUnescapeRange(view.segments, start - view.offset, end - view.offset, 'input')
+        highlightRange(preview, mapped.start, mapped.end)
+      }
+    }
+  }
+
+  useDisposable(window.onDidChangeTextEditorSelection(handleSelectionChange))
+  useDisposable(
+    workspace.onDidCloseTextDocument((document) => {
+      views.delete(document.uri.path)
+    }),
+  )
+
+  useCommand('unescaper.previewSideBySide', async () => {
+    const toProcess = getTextToProcess()
+
+    if (!toProcess) {
+      window.showWarningMessage(
+        l10n.t('No text selected or found at cursor position'),
+      )
+      return
+    }
+
+    const { document, offset, text: raw, dialect, quoteStyle } = toProcess
+    const { text, segments } = quoteStyle
+      ? unescapeDetailedForQuoteStyle(raw, quoteStyle, dialect)
+      : unescapeDetailed(raw, dialect, { mapping: true })
+    const previewUri = await showPreview(text, undefined, {
+      name: 'side-by-side',
+      preserveFocus: true,
+      viewColumn: ViewColumn.Beside,
+      decoder: l10n.t('Side by Side'),
+      source: toProcess,
+    })
+
+    views.set(previewUri.path, {
+      sourceUri: document.uri,
+      version: document.version,
+      offset,
+      length: raw.length,
+      previewUri,
+      segments: segments!,
+    })
+  })
+}
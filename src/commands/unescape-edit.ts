@@ -0,0 +1,241 @@
+import type { FileChangeEvent, FileStat, FileSystemProvider, TextDocumentChangeEvent } from 'vscode'
+import type { DialectId } from '../dialects'
+import type { QuoteStyle } from '../services/string-extractor'
+import { useCommand, useDisposable } from 'reactive-vscode'
+import { Disposable, EventEmitter, FileChangeType, FileSystemError, FileType, l10n, Position, Range, Uri, window, workspace, WorkspaceEdit } from 'vscode'
+import { detectDialect } from '../dialects'
+import { escapeForQuoteStyle, restoreIndent } from '../escape'
+import { extractStringWithDetails } from '../services/string-extractor'
+import { unescapeForQuoteStyle } from '../unescape'
+
+const SCHEME = 'unescape-edit'
+let editCounter = 0
+
+/**
+ * An editable unescaped view of a string literal in a source document
+ */
+interface EditSession {
+  /** The document containing the string literal */
+  sourceUri: Uri
+  /** Offset of the literal content (after the opening quote) */
+  start: number
+  /** Offset right before the closing quote */
+  end: number
+  /** The escaped literal content as it currently is in the source */
+  raw: string
+  /** The quote style of the literal */
+  quoteStyle: QuoteStyle
+  /** The escape sequence dialect used to unescape the literal */
+  dialect: DialectId
+  /** The unescaped content shown in the editor */
+  content: Uint8Array
+  /** Modification time, bumped whenever the content changes */
+  mtime: number
+  /** Set when an edit in the source overlapped the literal boundaries */
+  detached: boolean
+  /** Set while the session itself is writing back into the source */
+  writing: boolean
+}
+
+const sessions = new Map<string, EditSession>()
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+const onDidChangeFileEmitter = new EventEmitter<FileChangeEvent[]>()
+
+/**
+ * Replace the raw literal content and refresh the unescaped view
+ */
+function refreshSession(uri: Uri, session: EditSession, raw: string): void {
+  session.raw = raw
+  session.content = encoder.encode(unescapeForQuoteStyle(raw, session.quoteStyle, session.dialect))
+  session.mtime = Date.now()
+  onDidChangeFileEmitter.fire([{ type: FileChangeType.Changed, uri }])
+}
+
+/**
+ * Keep the literal ranges of the open sessions in sync with source edits
+ */
+function handleSourceChange({ document, contentChanges }: TextDocumentChangeEvent): void {
+  for (const [path, session] of sessions) {
+    if (session.detached || session.sourceUri.toString() !== document.uri.toString()) {
+      continue
+    }
+
+    // Change ranges refer to the document before the edit, so walk them
+    // from the end of the document to keep earlier offsets valid
+    const changes = [...contentChanges].sort((a, b) => b.rangeOffset - a.rangeOffset)
+    let touched = false
+
+    for (const { rangeOffset, rangeLength, text } of changes) {
+      const delta = text.length - rangeLength
+
+      if (rangeOffset >= session.start && rangeOffset + rangeLength <= session.end) {
+        session.end += delta
+        touched = true
+      }
+      else if (rangeOffset + rangeLength <= session.start) {
+        session.start += delta
+        session.end += delta
+      }
+      else if (rangeOffset < session.end) {
+        session.detached = true
+        break
+      }
+    }
+
+    if (touched && !session.detached) {
+      const range = new Range(document.positionAt(session.start), document.positionAt(session.end))
+      if (session.writing) {
+        session.raw = document.getText(range)
+      }
+      else {
+        refreshSession(Uri.from({ scheme: SCHEME, path }), session, document.getText(range))
+      }
+    }
+  }
+}
+
+/**
+ * Escape the edited text and write it back into the source string literal
+ */
+async function writeBack(session: EditSession, content: Uint8Array): Promise<void> {
+  if (session.detached) {
+    throw new Error(l10n.t('The source string literal has changed and can no longer be updated'))
+  }
+
+  const body = escapeForQuoteStyle(decoder.decode(content), session.quoteStyle, session.dialect)
+  if (body === null) {
+    throw new Error(l10n.t('The text cannot be represented in a {0}...{1} string literal', session.quoteStyle.open, session.quoteStyle.close))
+  }
+
+  const document = await workspace.openTextDocument(session.sourceUri)
+  const range = new Range(document.positionAt(session.start), document.positionAt(session.end))
+
+  if (document.getText(range) !== session.raw) {
+    session.detached = true
+    throw new Error(l10n.t('The source string literal has changed and can no longer be updated'))
+  }
+
+  const escaped = restoreIndent(body, session.raw, session.quoteStyle)
+  if (escaped !== session.raw) {
+    const edit = new WorkspaceEdit()
+    edit.replace(session.sourceUri, range, escaped)
+
+    // The change listener moves the range and records the new raw content
+    session.writing = true
+    try {
+      if (!await workspace.applyEdit(edit)) {
+        throw new Error(l10n.t('Failed to update the source string literal'))
+      }
+    }
+    finally {
+      session.writing = false
+    }
+  }
+
+  session.content = content
+  session.mtime = Date.now()
+}
+
+/**
+ * File system exposing each edit session as a single writable file
+ */
+const editFileSystem: FileSystemProvider = {
+  onDidChangeFile: onDidChangeFileEmitter.event,
+
+  watch(): Disposable {
+    return new Disposable(() => {})
+  },
+
+  stat(uri: Uri): FileStat {
+    const session = sessions.get(uri.path)
+    if (!session) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+    return { type: FileType.File, ctime: 0, mtime: session.mtime, size: session.content.byteLength }
+  },
+
+  readDirectory(): [string, FileType][] {
+    return []
+  },
+
+  createDirectory(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri)
+  },
+
+  readFile(uri: Uri): Uint8Array {
+    const session = sessions.get(uri.path)
+    if (!session) {
+      throw FileSystemError.FileNotFound(uri)
+    }
+    return session.content
+  },
+
+  async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+    const session = sessions.get(uri.path)
+    if (!session) {
+      throw FileSystemError.NoPermissions(uri)
+    }
+    await writeBack(session, content)
+  },
+
+  delete(uri: Uri): void {
+    sessions.delete(uri.path)
+  },
+
+  rename(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri)
+  },
+}
+
+/**
+ * Register the command that opens an editable unescaped view of a string literal
+ */
+export function useUnescapeEditCommand(): void {
+  useDisposable(
+    workspace.registerFileSystemProvider(SCHEME, editFileSystem, { isCaseSensitive: true }),
+  )
+  useDisposable(workspace.onDidChangeTextDocument(handleSourceChange))
+  useDisposable(
+    workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.scheme === SCHEME) {
+        sessions.delete(document.uri.path)
+      }
+    }),
+  )
+
+  useCommand('unescaper.edit', async () => {
+    const editor = window.activeTextEditor
+    const details = editor && extractStringWithDetails(editor.document, editor.selection.active)
+
+    if (!editor || !details) {
+      window.showWarningMessage(
+        l10n.t('No string literal found at cursor position'),
+      )
+      return
+    }
+
+    const { document } = editor
+    const raw = details.content
+    const dialect = detectDialect(document.languageId, details.quoteStyle)
+    const path = `/edit-${++editCounter}`
+    sessions.set(path, {
+      sourceUri: document.uri,
+      start: document.offsetAt(new Position(details.contentStart.line, details.contentStart.character)),
+      end: document.offsetAt(new Position(details.contentEnd.line, details.contentEnd.character)),
+      raw,
+      quoteStyle: details.quoteStyle,
+      dialect,
+      content: encoder.encode(unescapeForQuoteStyle(raw, details.quoteStyle, dialect)),
+      mtime: Date.now(),
+      detached: false,
+      writing: false,
+    })
+
+    const newDocument = await workspace.openTextDocument(Uri.from({ scheme: SCHEME, path }))
+    await window.showTextDocument(newDocument, {
+      preview: false,
+      preserveFocus: false,
+    })
+  })
+}
@@ -0,0 +1,97 @@
+import type { QuickPickItem } from 'vscode'
+import { useCommand } from 'reactive-vscode'
+import { commands, l10n, Range, window, workspace, WorkspaceEdit } from 'vscode'
+import { applyToText, collectEdits } from '../in-place'
+import { createPreviewUri } from './unescape-preview'
+
+/**
+ * Which text an in-place command replaces
+ */
+type InPlaceScope = 'selections' | 'all'
+
+interface ScopeItem extends QuickPickItem {
+  scope: InPlaceScope
+}
+
+/**
+ * Ask which text a dry run replaces
+ */
+async function pickScope(): Promise<InPlaceScope | undefined> {
+  const items: ScopeItem[] = [
+    { scope: 'selections', label: l10n.t('Selections and literals at the cursors') },
+    { scope: 'all', label: l10n.t('Every string literal in the file') },
+  ]
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select what to unescape'),
+  })
+  return picked?.scope
+}
+
+/**
+ * Register the commands replacing escaped text in the document with its
+ * unescaped value
+ */
+export function useUnescapeInPlaceCommands(): void {
+  /**
+   * Unescape text in the active editor as one edit, so that a single undo
+   * reverts it. A dry run shows the changes as a diff and applies them once
+   * confirmed.
+   */
+  async function unescapeInPlace(scope: InPlaceScope, dryRun: boolean): Promise<void> {
+    const editor = window.activeTextEditor
+    if (!editor) {
+      window.showWarningMessage(l10n.t('No active editor'))
+      return
+    }
+
+    const { document } = editor
+    const text = document.getText()
+    const edits = collectEdits(text, document.languageId, scope === 'all'
+      ? 'all'
+      : editor.selections.map(selection => ({
+          start: document.offsetAt(selection.start),
+          end: document.offsetAt(selection.end),
+        })))
+    if (edits.length === 0) {
+      window.showInformationMessage(l10n.t('Nothing to unescape'))
+      return
+    }
+
+    if (dryRun) {
+      const { version } = document
+      const extension = /\.[^./]+$/.exec(document.uri.path)?.[0] ?? ''
+      const preview = createPreviewUri(applyToText(text, edits), 'unescaped', extension)
+      await commands.executeCommand('vscode.diff', document.uri, preview, l10n.t('Unescape in Place (Dry Run)'))
+
+      const apply = l10n.t('Apply')
+      const choice = await window.showInformationMessage(
+        l10n.t('Unescape {0} location(s)?', edits.length),
+        apply,
+      )
+      if (choice !== apply) {
+        return
+      }
+      if (document.version !== version) {
+        window.showWarningMessage(l10n.t('The document changed since the dry run, run it again'))
+        return
+      }
+    }
+
+    const edit = new WorkspaceEdit()
+    edits.forEach(({ start, end, text: replacement }) => edit.replace(
+      document.uri,
+      new Range(document.positionAt(start), document.positionAt(end)),
+      replacement,
+    ))
+    await workspace.applyEdit(edit)
+  }
+
+  useCommand('unescaper.unescapeInPlace', () => unescapeInPlace('selections', false))
+  useCommand('unescaper.unescapeInPlaceAll', () => unescapeInPlace('all', false))
+  useCommand('unescaper.unescapeInPlaceDryRun', async () => {
+    const scope = await pickScope()
+    if (scope) {
+      await unescapeInPlace(scope, true)
+    }
+  })
+}
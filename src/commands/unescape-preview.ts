@@ -1,61 +1,710 @@
+import type { QuickPickItem, TextDocument, TextDocumentChangeEvent, TextEditorSelectionChangeEvent, ViewColumn } from 'vscode'
+import type { DialectId } from '../dialects'
+import type { Formatter, FormatterId } from '../formatters'
+import type { InvisibleKind, InvisiblesReport } from '../invisibles'
+import type { TrackedRange } from '../live-range'
+import type { PreviewEntry } from '../services/preview-store'
+import type { QuoteStyle } from '../services/string-extractor'
+import type { UnescapeIssue, UnescapeIssueKind } from '../unescape'
 import { useCommand, useDisposable } from 'reactive-vscode'
-import { l10n, Uri, window, workspace } from 'vscode'
-import { extractStringAtPosition } from '../services/string-extractor'
-import { unescape } from '../unescape'
+import { EventEmitter, l10n, languages, Position, Range, Selection, TextEditorRevealType, Uri, window, workspace } from 'vscode'
+import { config } from '../config'
+import { detectDialect, DIALECTS } from '../dialects'
+import { detectFormatter, FORMATTERS } from '../formatters'
+import { formatCodePoint, showInvisibles } from '../invisibles'
+import { expandNestedJson, stringifyExpandedJson } from '../json'
+import { trackRange } from '../live-range'
+import { joinPreviewSections } from '../preview-sections'
+import { createPreviewPath, getPreviewContent, recordPreview, releasePreview, setPreviewContent } from '../services/preview-store'
+import { extractStringWithDetails } from '../services/string-extractor'
+import { isRawQuoteStyle, unescapeForQuoteStyle, unescapeLayers } from '../unescape'
 
 const SCHEME = 'unescape-preview'
-let previewCounter = 0
-const contentMap = new Map<string, string>()
+const LIVE_UPDATE_DELAY = 300
+const onDidChangeEmitter = new EventEmitter<Uri>()
 
 /**
- * Get the text to process from selection or cursor position
+ * Text to unescape along with the dialect detected for it
  */
-function getTextToProcess(): string | null {
-  const editor = window.activeTextEditor
+export interface TextToProcess {
+  text: string
+  dialect: DialectId
+  /** The document the text comes from */
+  document: TextDocument
+  /** Offset of the text in the document */
+  offset: number
+  /** Whether the text is the content of a string literal, not a selection */
+  literal: boolean
+  /** Quote style of the string literal, when the text is its content */
+  quoteStyle?: QuoteStyle
+}
 
-  if (!editor) {
-    return null
-  }
+interface DialectItem extends QuickPickItem {
+  dialect: DialectId
+}
+
+interface FormatterItem extends QuickPickItem {
+  formatter: FormatterId
+}
+
+/**
+ * How the preview commands process the text
+ */
+interface PreviewOptions {
+  /** Format the result as JSON */
+  json?: boolean
+  /** Remove all layers of escaping instead of one */
+  full?: boolean
+  /** Ask for the dialect instead of detecting it */
+  chooseDialect?: boolean
+  /** Use the string literal at this location instead of the active editor */
+  location?: SourceLocation
+  /** Keep the preview in sync with the source */
+  live?: boolean
+  /** Pretty-print the result, detecting its content type or asking for it */
+  format?: 'auto' | 'choose'
+  /** Render invisible characters as markers, with a summary */
+  invisibles?: boolean
+}
+
+/**
+ * Processed text ready to be shown
+ */
+export interface ProcessedText {
+  content: string
+  language?: string
+  issues: UnescapeIssue[]
+  depth: number
+  /** The formatter used, if any */
+  formatter?: Formatter
+  /** Invisible characters found, when rendering them */
+  invisibles?: InvisiblesReport
+}
+
+/**
+ * A preview that follows a range of its source document: a string literal,
+ * re-detected on each render, or a fixed selection
+ */
+interface LivePreview extends TrackedRange {
+  uri: Uri
+  sourceUri: Uri
+  kind: 'literal' | 'selection'
+  json: boolean
+  full: boolean
+  /** Dialect picked by the user, detected on each render otherwise */
+  dialect?: DialectId
+  timer?: ReturnType<typeof setTimeout>
+}
 
-  const { document, selection } = editor
+const livePreviews = new Map<string, LivePreview>()
+/**
+ * Paths of the previews whose language is being set, which closes and opens
+ * their document again
+ */
+const switchingLanguage = new Set<string>()
 
+interface IssueItem extends QuickPickItem {
+  issue: UnescapeIssue
+}
+
+/**
+ * A position in a document to extract a string literal from
+ */
+interface SourceLocation {
+  document: TextDocument
+  position: Position
+}
+
+/**
+ * A text processed for a multi-cursor preview, or the reason it could not be
+ */
+interface PreviewPart {
+  source: TextToProcess
+  processed?: ProcessedText
+  error?: string
+}
+
+/**
+ * Get the text to process from a selection, or from the string literal at
+ * the cursor when nothing is selected
+ */
+function getTextInSelection(document: TextDocument, selection: Selection): TextToProcess | null {
   // If text is selected, use the selection
   if (!selection.isEmpty) {
-    return document.getText(selection)
+    return {
+      text: document.getText(selection),
+      dialect: detectDialect(document.languageId),
+      document,
+      offset: document.offsetAt(selection.start),
+      literal: false,
+    }
   }
 
   // Try to extract string at cursor position
-  return extractStringAtPosition(document, selection.active)
+  const details = extractStringWithDetails(document, selection.active)
+  if (!details) {
+    return null
+  }
+
+  return {
+    text: details.content,
+    dialect: detectDialect(document.languageId, details.quoteStyle),
+    document,
+    offset: document.offsetAt(new Position(details.contentStart.line, details.contentStart.character)),
+    literal: true,
+    quoteStyle: details.quoteStyle,
+  }
 }
 
 /**
- * Show the processed text in a new virtual document
+ * Get the text to process from the primary selection or cursor position, or
+ * from the string literal at the given location
+ */
+export function getTextToProcess(location?: SourceLocation): TextToProcess | null {
+  const editor = window.activeTextEditor
+
+  if (location) {
+    return getTextInSelection(location.document, new Selection(location.position, location.position))
+  }
+  return editor ? getTextInSelection(editor.document, editor.selection) : null
+}
+
+/**
+ * Get the texts to process from every selection or cursor of the active
+ * editor, in document order. Cursors in the same string literal give it once.
+ */
+export function getTextsToProcess(): TextToProcess[] {
+  const editor = window.activeTextEditor
+  if (!editor) {
+    return []
+  }
+
+  const texts = new Map<string, TextToProcess>()
+  for (const selection of editor.selections) {
+    const text = getTextInSelection(editor.document, selection)
+    if (text) {
+      texts.set(`${text.offset}:${text.text.length}`, text)
+    }
+  }
+  return [...texts.values()].sort((a, b) => a.offset - b.offset)
+}
+
+/**
+ * Name the location of a text to process as line:column
  */
-async function showPreview(content: string, language?: string): Promise<void> {
-  const path = `/preview-${++previewCounter}${language === 'json' ? '.json' : ''}`
-  contentMap.set(path, content)
+function describeLocation({ document, offset }: TextToProcess): string {
+  const position = document.positionAt(offset)
+  return `${position.line + 1}:${position.character + 1}`
+}
 
-  const uri = Uri.parse(`${SCHEME}:${path}`)
-  const newDocument = await workspace.openTextDocument(uri)
+/**
+ * Describe how a preview was made, e.g. `JavaScript / TypeScript · JSON`
+ */
+function describeProcessing(dialect: DialectId, options: PreviewOptions, formatter?: Formatter): string {
+  const steps = [l10n.t(DIALECTS[dialect].label)]
+  if (options.json) {
+    steps.push('JSON')
+  }
+  else if (formatter) {
+    steps.push(l10n.t(formatter.label))
+  }
+  if (options.full) {
+    steps.push(l10n.t('All Layers'))
+  }
+  if (options.invisibles) {
+    steps.push(l10n.t('Invisibles'))
+  }
+  if (options.live) {
+    steps.push(l10n.t('Live'))
+  }
+  return steps.join(' · ')
+}
 
-  await window.showTextDocument(newDocument, {
-    preview: true,
-    preserveFocus: false,
+/**
+ * Ask the user which dialect to unescape with, suggesting the detected one
+ */
+async function pickDialect(detected: DialectId): Promise<DialectId | undefined> {
+  const items: DialectItem[] = Object.values(DIALECTS).map(({ id, label }) => ({
+    dialect: id,
+    label: l10n.t(label),
+    description: id === detected ? l10n.t('Detected') : undefined,
+  }))
+  items.sort((a, b) => Number(b.dialect === detected) - Number(a.dialect === detected))
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select the escape sequence dialect'),
   })
+  return picked?.dialect
+}
+
+/**
+ * Ask the user which formatter to pretty-print with
+ */
+async function pickFormatter(): Promise<FormatterId | undefined> {
+  const items: FormatterItem[] = Object.values(FORMATTERS).map(({ id, label }) => ({
+    formatter: id,
+    label: l10n.t(label),
+  }))
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select the content type'),
+  })
+  return picked?.formatter
+}
+
+/**
+ * Describe a kind of malformed escape sequence
+ */
+export function describeIssueKind(kind: UnescapeIssueKind): string {
+  switch (kind) {
+    case 'unknown':
+      return l10n.t('Unknown escape sequence')
+    case 'invalid':
+      return l10n.t('Invalid escape sequence')
+    case 'truncated':
+      return l10n.t('Truncated escape sequence')
+    case 'lone-surrogate':
+      return l10n.t('Lone surrogate')
+    case 'invalid-utf8':
+      return l10n.t('Invalid UTF-8 byte sequence')
+    case 'unresolved':
+      return l10n.t('Unknown character name, left as written')
+  }
+}
+
+/**
+ * Select a malformed escape sequence in its source document
+ */
+async function revealIssue(source: TextToProcess, issue: UnescapeIssue): Promise<void> {
+  const { document, offset } = source
+  const editor = await window.showTextDocument(document)
+  const start = document.positionAt(offset + issue.offset)
+  const end = document.positionAt(offset + issue.offset + issue.length)
+
+  editor.selection = new Selection(start, end)
+  editor.revealRange(editor.selection, TextEditorRevealType.InCenterIfOutsideViewport)
 }
 
 /**
- * Format text as JSON with indentation
+ * Warn about malformed escape sequences, offering to jump to them
  */
-function formatJson(text: string): string {
+async function reportIssues(source: TextToProcess, issues: UnescapeIssue[]): Promise<void> {
+  const goToProblem = l10n.t('Go to problem')
+  const choice = await window.showWarningMessage(
+    l10n.t('Found {0} malformed escape sequence(s): {1}', issues.length, describeIssueKind(issues[0].kind)),
+    goToProblem,
+  )
+
+  if (choice !== goToProblem) {
+    return
+  }
+
+  if (issues.length === 1) {
+    await revealIssue(source, issues[0])
+    return
+  }
+
+  const items: IssueItem[] = issues.map((issue) => {
+    const position = source.document.positionAt(source.offset + issue.offset)
+    return {
+      issue,
+      label: source.text.substr(issue.offset, issue.length),
+      description: describeIssueKind(issue.kind),
+      detail: `${position.line + 1}:${position.character + 1}`,
+    }
+  })
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: l10n.t('Select a malformed escape sequence to go to'),
+  })
+  if (picked) {
+    await revealIssue(source, picked.issue)
+  }
+}
+
+function describeInvisibleKind(kind: InvisibleKind): string {
+  switch (kind) {
+    case 'control':
+      return l10n.t('control character')
+    case 'format':
+      return l10n.t('zero-width or format character')
+    case 'space':
+      return l10n.t('unusual space')
+    case 'bidi':
+      return l10n.t('bidirectional control')
+  }
+}
+
+/**
+ * Render the invisible characters and words mixing scripts found in a text,
+ * to show above it, or an empty string if nothing was found
+ */
+function renderInvisiblesSummary({ characters, mixedScriptWords }: InvisiblesReport): string {
+  if (characters.length === 0 && mixedScriptWords.length === 0) {
+    return ''
+  }
+
+  const lines = [`──── ${l10n.t('Suspicious characters')} ────`]
+  for (const { codePoint, name, kind, count } of characters) {
+    lines.push(`⟨${formatCodePoint(codePoint)}${name ? ` ${name}` : ''}⟩ ×${count}  ${describeInvisibleKind(kind)}`)
+  }
+  for (const { word, scripts } of mixedScriptWords) {
+    lines.push(l10n.t('"{0}" mixes {1}', word, scripts.join(', ')))
+  }
+  lines.push('────────', '')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Warn about characters that can make text read differently from what it
+ * is: bidirectional controls and look-alike letters of another script
+ */
+function reportSuspicious(reports: InvisiblesReport[]): void {
+  const bidi = reports.some(report => report.characters.some(char => char.kind === 'bidi'))
+  const mixed = reports.some(report => report.mixedScriptWords.length > 0)
+
+  if (bidi) {
+    window.showWarningMessage(l10n.t('The text contains bidirectional control characters, which can make it read differently from how it runs'))
+  }
+  if (mixed) {
+    window.showWarningMessage(l10n.t('The text contains words mixing scripts, which may hide look-alike characters'))
+  }
+  if (reports.every(report => report.characters.length === 0 && report.mixedScriptWords.length === 0)) {
+    window.showInformationMessage(l10n.t('No invisible or suspicious characters found'))
+  }
+}
+
+/**
+ * Store the content of a new virtual document without opening it, e.g. to
+ * show it in a diff
+ *
+ * @param content The text of the document
+ * @param name Base name of the document
+ * @param extension File extension, which sets the language of the document
+ * @returns The URI of the document
+ */
+export function createPreviewUri(content: string, name: string, extension = ''): Uri {
+  const path = createPreviewPath(name, extension)
+  setPreviewContent(path, content)
+  return Uri.parse(`${SCHEME}:${path}`)
+}
+
+/**
+ * Open a virtual document in an editor
+ */
+async function openPreviewDocument(
+  uri: Uri,
+  language: string | undefined,
+  options: { preserveFocus: boolean, viewColumn?: ViewColumn },
+): Promise<void> {
+  let document = await workspace.openTextDocument(uri)
+
+  // Languages without an installed extension stay plain text
+  if (language && document.languageId !== language && (await languages.getLanguages()).includes(language)) {
+    switchingLanguage.add(uri.path)
+    try {
+      document = await languages.setTextDocumentLanguage(document, language)
+    }
+    finally {
+      switchingLanguage.delete(uri.path)
+    }
+  }
+
+  await window.showTextDocument(document, { preview: true, ...options })
+}
+
+/**
+ * Show the processed text in a new virtual document
+ *
+ * @param content The text to show
+ * @param language Language of the text, used as the file extension of JSON
+ * and set on the document otherwise
+ * @param options How to show the document
+ * @param options.name Base name of the document
+ * @param options.preserveFocus Whether to keep the focus in the current editor
+ * @param options.viewColumn Where to show the document, the active group by
+ * default
+ * @param options.decoder What produced the text, shown in the history, the
+ * name of the document by default
+ * @param options.source Where the text comes from, shown in the history
+ * @returns The URI of the new document
+ */
+export async function showPreview(
+  content: string,
+  language?: string,
+  options: {
+    name?: string
+    preserveFocus?: boolean
+    viewColumn?: ViewColumn
+    decoder?: string
+    source?: Pick<TextToProcess, 'document' | 'offset'>
+  } = {},
+): Promise<Uri> {
+  const { name = 'preview', preserveFocus = false, viewColumn, decoder = name, source } = options
+  const extension = language === 'json' || language === 'jsonc' ? `.${language}` : ''
+  const uri = createPreviewUri(content, name, extension)
+
+  recordPreview({
+    path: uri.path,
+    content,
+    language,
+    decoder,
+    source: source && {
+      uri: source.document.uri.toString(),
+      line: source.document.positionAt(source.offset).line,
+    },
+    timestamp: Date.now(),
+  }, config['history.maxEntries'])
+
+  await openPreviewDocument(uri, language, { preserveFocus, viewColumn })
+  return uri
+}
+
+/**
+ * Open a preview of the history again
+ */
+export async function reopenPreview({ path, content, language, truncated }: PreviewEntry): Promise<void> {
+  // The content of closed previews is released, restore it first
+  setPreviewContent(path, content)
+  await openPreviewDocument(Uri.parse(`${SCHEME}:${path}`), language, { preserveFocus: false })
+  if (truncated) {
+    window.showInformationMessage(l10n.t('The preview was too long to be saved whole, only its beginning was restored'))
+  }
+}
+
+/**
+ * Check if text parses as JSON
+ */
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Format text as JSON with indentation, expanding nested JSON strings into
+ * JSONC when enabled
+ */
+export function formatJson(text: string): { content: string, language: 'json' | 'jsonc' } {
+  let parsed: unknown
   try {
-    const parsed = JSON.parse(text)
-    return JSON.stringify(parsed, null, 2)
+    parsed = JSON.parse(text)
   }
   catch {
     // If parsing fails, return original text with error message
     throw new Error(l10n.t('Invalid JSON format'))
   }
+
+  if (config.expandNestedJson) {
+    const expanded = expandNestedJson(parsed)
+    if (expanded.expanded.size > 0) {
+      return { content: stringifyExpandedJson(expanded), language: 'jsonc' }
+    }
+  }
+
+  return { content: JSON.stringify(parsed, null, 2), language: 'json' }
+}
+
+/**
+ * Unescape text, removing as many layers as the options ask for, and format
+ * it as JSON for JSON previews or with a formatter for formatted previews.
+ * The body of a raw literal, given with its quote style, is its value as is.
+ * Throws if the result is not valid for the format.
+ */
+export function processText(
+  text: string,
+  dialect: DialectId,
+  options: { json: boolean, full: boolean, formatter?: FormatterId | 'auto', invisibles?: boolean, quoteStyle?: QuoteStyle },
+): ProcessedText {
+  const { json, full, formatter, invisibles, quoteStyle } = options
+
+  // JSON and formatted previews look for the first layer that has their
+  // format, full previews remove layers until the text stops changing or
+  // becomes JSON
+  const layers = quoteStyle && isRawQuoteStyle(quoteStyle)
+    ? { text: unescapeForQuoteStyle(text, quoteStyle, dialect), issues: [], depth: 0 }
+    : unescapeLayers(text, dialect, {
+        maxDepth: json || full || formatter ? config.maxDepth : 1,
+        done: formatter === 'auto'
+          ? candidate => detectFormatter(candidate) !== null
+          : formatter ? FORMATTERS[formatter].detect : isJson,
+      })
+  const { text: unescapedText, depth } = layers
+  // Unresolved names are well formed, only malformed sequences are reported
+  const issues = layers.issues.filter(({ kind }) => kind !== 'unresolved')
+
+  if (json) {
+    return { ...formatJson(unescapedText), issues, depth }
+  }
+
+  const chosen = formatter === 'auto' ? detectFormatter(unescapedText) : formatter && FORMATTERS[formatter]
+  if (!chosen) {
+    if (invisibles) {
+      const report = showInvisibles(unescapedText)
+      return { content: renderInvisiblesSummary(report) + report.text, issues, depth, invisibles: report }
+    }
+    return { content: unescapedText, issues, depth }
+  }
+
+  // JSON keeps the nested JSON expansion of JSON previews
+  if (chosen.id === 'json') {
+    return { ...formatJson(unescapedText), issues, depth, formatter: chosen }
+  }
+
+  const formatted = chosen.format(unescapedText)
+  if (formatted === null) {
+    throw new Error(l10n.t('The text is not valid {0}', l10n.t(chosen.label)))
+  }
+  return { content: formatted, language: chosen.language, issues, depth, formatter: chosen }
+}
+
+/**
+ * Render a live preview from the current state of its source
+ */
+function renderLivePreview(live: LivePreview): string {
+  const notFound = `${l10n.t('Source literal no longer found')}\n`
+  const document = workspace.textDocuments.find(doc => doc.uri.toString() === live.sourceUri.toString())
+  if (!document || live.lost) {
+    return notFound
+  }
+
+  let text: string
+  let dialect = live.dialect
+  let quoteStyle: QuoteStyle | undefined
+  if (live.kind === 'selection') {
+    text = document.getText(new Range(document.positionAt(live.start), document.positionAt(live.end)))
+    dialect ??= detectDialect(document.languageId)
+  }
+  else {
+    const details = extractStringWithDetails(document, document.positionAt(live.start))
+    if (!details) {
+      return notFound
+    }
+    live.start = document.offsetAt(new Position(details.contentStart.line, details.contentStart.character))
+    live.end = document.offsetAt(new Position(details.contentEnd.line, details.contentEnd.character))
+    text = details.content
+    dialect ??= detectDialect(document.languageId, details.quoteStyle)
+    quoteStyle = details.quoteStyle
+  }
+
+  try {
+    return processText(text, dialect, { ...live, quoteStyle }).content
+  }
+  catch {
+    // Keep showing the text while it is not valid JSON, e.g. while typing
+    return processText(text, dialect, { json: false, full: live.full, quoteStyle }).content
+  }
+}
+
+/**
+ * Re-render a live preview after a short delay, coalescing quick changes
+ */
+function scheduleLiveUpdate(live: LivePreview): void {
+  clearTimeout(live.timer)
+  live.timer = setTimeout(() => {
+    setPreviewContent(live.uri.path, renderLivePreview(live))
+    onDidChangeEmitter.fire(live.uri)
+  }, LIVE_UPDATE_DELAY)
+}
+
+/**
+ * Keep the tracked ranges of live previews in sync with source edits
+ */
+function handleLiveSourceChange({ document, contentChanges }: TextDocumentChangeEvent): void {
+  for (const live of livePreviews.values()) {
+    if (live.sourceUri.toString() !== document.uri.toString() || contentChanges.length === 0) {
+      continue
+    }
+
+    Object.assign(live, trackRange(live, contentChanges))
+    scheduleLiveUpdate(live)
+  }
+}
+
+/**
+ * Follow the cursor into another string literal of the source of live
+ * previews
+ */
+function handleLiveSelectionChange({ textEditor, selections }: TextEditorSelectionChangeEvent): void {
+  const { document } = textEditor
+  const [selection] = selections
+  if (!selection?.isEmpty) {
+    return
+  }
+
+  for (const live of livePreviews.values()) {
+    if (live.sourceUri.toString() !== document.uri.toString()) {
+      continue
+    }
+
+    const details = extractStringWithDetails(document, selection.active)
+    if (!details) {
+      continue
+    }
+
+    const start = document.offsetAt(new Position(details.contentStart.line, details.contentStart.character))
+    const end = document.offsetAt(new Position(details.contentEnd.line, details.contentEnd.character))
+    if (live.kind === 'literal' && !live.lost && start === live.start && end === live.end) {
+      continue
+    }
+
+    Object.assign(live, { start, end, kind: 'literal', lost: false })
+    scheduleLiveUpdate(live)
+  }
+}
+
+/**
+ * Show the processed texts of several selections, in one preview with a
+ * header naming the location of each, or in one tab each
+ */
+async function showPreviewParts(parts: PreviewPart[], options: PreviewOptions, chosenDialect?: DialectId): Promise<void> {
+  const { format } = options
+  const processed = parts.filter(part => part.processed)
+  if (processed.length === 0) {
+    window.showErrorMessage(parts[0].error!)
+    return
+  }
+
+  const [first] = processed
+  const decoder = describeProcessing(chosenDialect ?? first.source.dialect, options, first.processed!.formatter)
+
+  const withIssues = processed.find(part => part.processed!.issues.length > 0)
+  if (withIssues) {
+    reportIssues(withIssues.source, withIssues.processed!.issues)
+  }
+
+  const depth = Math.max(...processed.map(part => part.processed!.depth))
+  if (depth > 1) {
+    window.showInformationMessage(l10n.t('Removed {0} layers of escaping', depth))
+  }
+
+  if (format === 'auto' && processed.every(part => !part.processed!.formatter)) {
+    window.showInformationMessage(l10n.t('No known content type detected, showing plain text'))
+  }
+
+  const reports = processed.flatMap(part => part.processed!.invisibles ?? [])
+  if (reports.length > 0) {
+    reportSuspicious(reports)
+  }
+
+  if (config['preview.tabPerSelection']) {
+    for (const { source, processed, error } of parts) {
+      await showPreview(processed?.content ?? error!, processed?.language, { name: describeLocation(source), decoder, source })
+    }
+    return
+  }
+
+  const { content, language } = joinPreviewSections(parts.map(({ source, processed, error }) => ({
+    location: describeLocation(source),
+    content: processed?.content,
+    language: processed?.language,
+    error,
+  })))
+  await showPreview(content, language, { decoder, source: first.source })
 }
 
 /**
@@ -63,50 +712,158 @@ function formatJson(text: string): string {
  */
 export function useUnescapePreviewCommand(): void {
   // Register content provider for virtual documents
+  useDisposable(onDidChangeEmitter)
   useDisposable(
     workspace.registerTextDocumentContentProvider(SCHEME, {
+      onDidChange: onDidChangeEmitter.event,
       provideTextDocumentContent(uri: Uri): string {
-        return contentMap.get(uri.path) ?? ''
+        return getPreviewContent(uri.path) ?? ''
       },
     }),
   )
 
-  // Basic unescape preview
-  useCommand('unescaper.preview', async () => {
-    const text = getTextToProcess()
+  // Keep live previews in sync with their source
+  useDisposable(workspace.onDidChangeTextDocument(handleLiveSourceChange))
+  useDisposable(window.onDidChangeTextEditorSelection(handleLiveSelectionChange))
 
-    if (!text) {
+  // Free the content of closed previews and stop updating them, but not
+  // when a preview is only closed to change its language
+  useDisposable(
+    workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.scheme !== SCHEME || switchingLanguage.has(document.uri.path)) {
+        return
+      }
+      releasePreview(document.uri.path)
+      const live = livePreviews.get(document.uri.path)
+      if (live) {
+        clearTimeout(live.timer)
+        livePreviews.delete(document.uri.path)
+      }
+    }),
+  )
+  useDisposable({
+    dispose: () => livePreviews.forEach(live => clearTimeout(live.timer)),
+  })
+
+  /**
+   * Unescape the text to process and show it
+   */
+  async function preview(options: PreviewOptions = {}): Promise<void> {
+    const { json = false, full = false, chooseDialect = false, location, live = false, format, invisibles } = options
+
+    // Live previews and previews of a given location follow a single text
+    const sources = location || live
+      ? [getTextToProcess(location)].filter((text): text is TextToProcess => text !== null)
+      : getTextsToProcess()
+
+    if (sources.length === 0) {
       window.showWarningMessage(
         l10n.t('No text selected or found at cursor position'),
       )
       return
     }
 
-    const unescapedText = unescape(text)
-    await showPreview(unescapedText)
-  })
-
-  // Unescape + JSON format preview
-  useCommand('unescaper.previewJson', async () => {
-    const text = getTextToProcess()
+    const chosenDialect = chooseDialect ? await pickDialect(sources[0].dialect) : undefined
+    if (chooseDialect && !chosenDialect) {
+      return
+    }
 
-    if (!text) {
-      window.showWarningMessage(
-        l10n.t('No text selected or found at cursor position'),
-      )
+    const formatter = format === 'choose' ? await pickFormatter() : format
+    if (format && !formatter) {
       return
     }
 
-    const unescapedText = unescape(text)
+    if (sources.length > 1) {
+      await showPreviewParts(sources.map((source) => {
+        try {
+          const { text, dialect, quoteStyle } = source
+          return { source, processed: processText(text, chosenDialect ?? dialect, { json, full, formatter, invisibles, quoteStyle }) }
+        }
+        catch (error) {
+          return { source, error: error instanceof Error ? error.message : l10n.t('Invalid JSON format') }
+        }
+      }), options, chosenDialect)
+      return
+    }
 
+    const [toProcess] = sources
+    const dialect = chosenDialect ?? toProcess.dialect
+    let processed: ProcessedText
     try {
-      const formattedJson = formatJson(unescapedText)
-      await showPreview(formattedJson, 'json')
+      processed = processText(toProcess.text, dialect, { json, full, formatter, invisibles, quoteStyle: toProcess.quoteStyle })
     }
     catch (error) {
       window.showErrorMessage(
         error instanceof Error ? error.message : l10n.t('Invalid JSON format'),
       )
+      return
+    }
+
+    const { content, language, issues, depth } = processed
+    if (issues.length > 0) {
+      reportIssues(toProcess, issues)
+    }
+
+    if (depth > 1) {
+      window.showInformationMessage(l10n.t('Removed {0} layers of escaping', depth))
+    }
+
+    if (format === 'auto' && !processed.formatter) {
+      window.showInformationMessage(l10n.t('No known content type detected, showing plain text'))
     }
+
+    if (processed.invisibles) {
+      reportSuspicious([processed.invisibles])
+    }
+
+    const decoder = describeProcessing(dialect, options, processed.formatter)
+    if (!live) {
+      await showPreview(content, language, { decoder, source: toProcess })
+      return
+    }
+
+    const { document, offset, text, literal } = toProcess
+    const uri = await showPreview(content, language, { name: 'live', preserveFocus: true, decoder, source: toProcess })
+    livePreviews.set(uri.path, {
+      uri,
+      sourceUri: document.uri,
+      start: offset,
+      end: offset + text.length,
+      kind: literal ? 'literal' : 'selection',
+      lost: false,
+      json,
+      full,
+      dialect: chooseDialect ? dialect : undefined,
+    })
+  }
+
+  // Basic unescape preview
+  useCommand('unescaper.preview', () => preview())
+
+  // Unescape + JSON format preview
+  useCommand('unescaper.previewJson', () => preview({ json: true }))
+
+  // Unescape all layers of a multiply escaped string
+  useCommand('unescaper.previewFull', () => preview({ full: true }))
+
+  // Same as above, choosing the dialect instead of detecting it
+  useCommand('unescaper.previewWithDialect', () => preview({ chooseDialect: true }))
+  useCommand('unescaper.previewJsonWithDialect', () => preview({ json: true, chooseDialect: true }))
+
+  // Unescape + pretty-print by detected or chosen content type
+  useCommand('unescaper.previewFormatted', () => preview({ format: 'auto' }))
+  useCommand('unescaper.previewFormattedAs', () => preview({ format: 'choose' }))
+
+  // Show invisible, control and bidi characters as markers
+  useCommand('unescaper.previewInvisibles', () => preview({ invisibles: true }))
+
+  // Previews that follow edits of the source and the cursor
+  useCommand('unescaper.previewLive', () => preview({ live: true }))
+  useCommand('unescaper.previewJsonLive', () => preview({ json: true, live: true }))
+
+  // Preview the string literal at a given location, used by command links
+  useCommand('unescaper.previewAt', async (uri: string, line: number, character: number) => {
+    const document = await workspace.openTextDocument(Uri.parse(uri))
+    await preview({ location: { document, position: new Position(line, character) } })
   })
 }
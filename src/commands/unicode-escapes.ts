@@ -0,0 +1,50 @@
+import type { DialectId } from '../dialects'
+import { useCommand } from 'reactive-vscode'
+import { l10n, Range, window, workspace, WorkspaceEdit } from 'vscode'
+import { detectDialect } from '../dialects'
+import { escapeNonAscii, unescapeUnicode } from '../unicode-escapes'
+
+/**
+ * Register the `native2ascii`-style commands converting between Unicode
+ * escape sequences and the characters they stand for
+ */
+export function useUnicodeEscapeCommands(): void {
+  /**
+   * Convert the selections of the active editor, or the whole document
+   * without a selection, as one edit so that a single undo reverts it
+   */
+  async function convertInPlace(convert: (text: string, dialect: DialectId) => string): Promise<void> {
+    const editor = window.activeTextEditor
+    if (!editor) {
+      window.showWarningMessage(l10n.t('No active editor'))
+      return
+    }
+
+    const { document } = editor
+    const selections = editor.selections.filter(selection => !selection.isEmpty)
+    const ranges = selections.length > 0
+      ? selections
+      : [new Range(document.positionAt(0), document.positionAt(document.getText().length))]
+
+    const dialect = detectDialect(document.languageId)
+    const edit = new WorkspaceEdit()
+    let changed = 0
+    for (const range of ranges) {
+      const text = document.getText(range)
+      const converted = convert(text, dialect)
+      if (converted !== text) {
+        edit.replace(document.uri, range, converted)
+        changed++
+      }
+    }
+
+    if (changed === 0) {
+      window.showInformationMessage(l10n.t('Nothing to convert'))
+      return
+    }
+    await workspace.applyEdit(edit)
+  }
+
+  useCommand('unescaper.escapeNonAscii', () => convertInPlace(escapeNonAscii))
+  useCommand('unescaper.unescapeUnicode', () => convertInPlace(unescapeUnicode))
+}
@@ -0,0 +1,195 @@
+import type { DialectId } from './dialects'
+import { escapeLiteral } from './escape'
+import { decodeBytes, unescape } from './unescape'
+
+/**
+ * Identifiers of the available decoders
+ */
+export type DecoderId = 'backslash' | 'url' | 'html' | 'base64' | 'base64url' | 'hex' | 'quoted-printable'
+
+/**
+ * A reversible text encoding
+ */
+export interface Decoder {
+  id: DecoderId
+  /** Display name */
+  label: string
+  /**
+   * Decode text, or return null when it is not valid for this encoding
+   *
+   * @param text The encoded text
+   * @param dialect Escape sequence dialect, for decoders that have dialects
+   */
+  decode: (text: string, dialect?: DialectId) => string | null
+  /** Encode text so that {@link decode} gives it back */
+  encode: (text: string) => string
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * Named character references decoded by the HTML decoder
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  deg: '°',
+  plusmn: '±',
+  times: '×',
+  divide: '÷',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+}
+
+/**
+ * Decode standard Base64, ignoring whitespace and missing padding
+ */
+function decodeBase64(text: string): string | null {
+  const compact = text.replace(/\s/g, '')
+  if (!/^[A-Z\d+/]*={0,2}$/i.test(compact) || compact.replace(/=+$/, '').length % 4 === 1) {
+    return null
+  }
+
+  const unpadded = compact.replace(/=+$/, '')
+  const binary = atob(unpadded.padEnd(Math.ceil(unpadded.length / 4) * 4, '='))
+  return decodeBytes([...binary].map(char => char.charCodeAt(0)))
+}
+
+/**
+ * Encode text as standard Base64 of its UTF-8 bytes
+ */
+function encodeBase64(text: string): string {
+  return btoa(encoder.encode(text).reduce((binary, byte) => binary + String.fromCharCode(byte), ''))
+}
+
+export const DECODERS: Record<DecoderId, Decoder> = {
+  'backslash': {
+    id: 'backslash',
+    label: 'Backslash escapes',
+    // Malformed sequences are kept as they are, like the unescape preview
+    decode: (text, dialect = 'generic') => unescape(text, dialect),
+    encode: text => escapeLiteral(text, 'json').body,
+  },
+  'url': {
+    id: 'url',
+    label: 'URL (percent-encoding)',
+    decode: (text) => {
+      try {
+        // Form encoding writes spaces as +
+        return decodeURIComponent(text.replace(/\+/g, ' '))
+      }
+      catch {
+        return null
+      }
+    },
+    encode: text => encodeURIComponent(text),
+  },
+  'html': {
+    id: 'html',
+    label: 'HTML / XML entities',
+    decode: text => text.replace(/&(?:#(\d+)|#x([\da-f]+)|([a-z]+\d*));/gi, (entity, decimal?: string, hex?: string, name?: string) => {
+      if (name !== undefined) {
+        return HTML_ENTITIES[name] ?? entity
+      }
+      const codePoint = decimal !== undefined ? Number.parseInt(decimal, 10) : Number.parseInt(hex!, 16)
+      return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity
+    }),
+    encode: text => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`),
+  },
+  'base64': {
+    id: 'base64',
+    label: 'Base64',
+    decode: decodeBase64,
+    encode: encodeBase64,
+  },
+  'base64url': {
+    id: 'base64url',
+    label: 'Base64url',
+    decode: text => /[+/]/.test(text) ? null : decodeBase64(text.replace(/-/g, '+').replace(/_/g, '/')),
+    encode: text => encodeBase64(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''),
+  },
+  'hex': {
+    id: 'hex',
+    label: 'Hex',
+    decode: (text) => {
+      // Allow a 0x prefix and bytes separated by spaces, colons or dashes
+      const digits = text.trim().replace(/^0x/i, '').replace(/[\s:-]/g, '')
+      if (!/^(?:[\da-f]{2})*$/i.test(digits)) {
+        return null
+      }
+      return decodeBytes((digits.match(/../g) ?? []).map(byte => Number.parseInt(byte, 16)))
+    },
+    encode: text => [...encoder.encode(text)].map(byte => byte.toString(16).padStart(2, '0')).join(''),
+  },
+  'quoted-printable': {
+    id: 'quoted-printable',
+    label: 'Quoted-printable',
+    decode: (text) => {
+      // Soft line breaks only wrap long lines
+      const unwrapped = text.replace(/=[ \t]*\r?\n/g, '')
+      if (/=(?![\dA-F]{2})/i.test(unwrapped)) {
+        return null
+      }
+
+      const bytes: number[] = []
+      for (const [token] of unwrapped.matchAll(/=[\dA-F]{2}|[^=]+/gi)) {
+        if (token.startsWith('=')) {
+          bytes.push(Number.parseInt(token.slice(1), 16))
+        }
+        else {
+          encoder.encode(token).forEach(byte => bytes.push(byte))
+        }
+      }
+      return decodeBytes(bytes)
+    },
+    encode: (text) => {
+      const lines = text.split('\n').map((line) => {
+        const encoded = [...encoder.encode(line)].map((byte) => {
+          const char = String.fromCharCode(byte)
+          return (byte >= 33 && byte <= 126 && char !== '=') || byte === 32 || byte === 9
+            ? char
+            : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+        }).join('')
+
+        // Whitespace at the end of a line would be lost in transport, and
+        // lines are wrapped at 76 characters without splitting an =XX
+        const safe = encoded.replace(/[ \t]$/, char => `=${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+        const wrapped = ['']
+        for (const [token] of safe.matchAll(/=[\dA-F]{2}|[^=]/g)) {
+          if (wrapped[wrapped.length - 1].length + token.length > 75) {
+            wrapped.push('')
+          }
+          wrapped[wrapped.length - 1] += token
+        }
+        return wrapped.join('=\n')
+      })
+      return lines.join('\n')
+    },
+  },
+}
@@ -0,0 +1,361 @@
+import type { QuoteStyle } from './services/string-extractor'
+
+/**
+ * Identifiers of the supported unescape dialects
+ */
+export type DialectId = 'generic' | 'javascript' | 'json' | 'java' | 'python' | 'c' | 'go' | 'rust' | 'shell' | 'shell-double' | 'single-quoted'
+
+/**
+ * Categories of escape sequences, to decode some of them only
+ * - `unicode`: a code point in hexadecimal, e.g. `\u00e9`, `\u{1F600}`
+ * - `hex`: a byte or character in hexadecimal, e.g. `\xe9`
+ * - `octal`: a byte or character in octal, e.g. `\351`, `\0`
+ * - `named`: a character by name, e.g. `\N{BULLET}`
+ * - `control`: a control character by letter, e.g. `\cA`
+ * - `simple`: a single character standing for a fixed value, e.g. `\n`
+ * - `line-continuation`: an escaped line break
+ */
+export type EscapeCategory = 'unicode' | 'hex' | 'octal' | 'named' | 'control' | 'simple' | 'line-continuation'
+
+/**
+ * A single kind of escape sequence, matched right after the backslash
+ */
+export interface EscapeRule {
+  /** Sticky pattern matched at the character following the backslash */
+  pattern: RegExp
+  /**
+   * Sticky pattern for the start of the sequence. When it matches but
+   * {@link pattern} does not, the sequence is truncated.
+   */
+  lead?: RegExp
+  /** Decode the matched sequence, or return undefined if it is not valid */
+  decode: (match: RegExpExecArray) => string | undefined
+  /** Whether the sequence encodes a single byte rather than a character */
+  byte?: boolean
+  /**
+   * Whether a match that cannot be decoded is still well formed, e.g. a
+   * character name missing from a table, rather than invalid
+   */
+  unresolved?: boolean
+  category: EscapeCategory
+}
+
+/**
+ * Escape sequence grammar of a language
+ */
+export interface Dialect {
+  id: DialectId
+  /** Display name */
+  label: string
+  /** Escape rules, tried in order */
+  rules: EscapeRule[]
+  /** Whether consecutive byte escapes are decoded as UTF-8 */
+  utf8Bytes?: boolean
+  /**
+   * Whether a backslash that starts no escape sequence is an ordinary
+   * character, rather than an unknown sequence
+   */
+  literalBackslash?: boolean
+}
+
+/**
+ * Escapes that map a single character to a fixed value
+ */
+function simple(map: Record<string, string>): EscapeRule {
+  const chars = Object.keys(map).map(char => char.replace(/[\\\]^-]/g, '\\$&')).join('')
+  return {
+    pattern: new RegExp(`[${chars}]`, 'y'),
+    decode: match => map[match[0]],
+    category: 'simple',
+  }
+}
+
+/**
+ * Escapes encoding a code point (or byte) in a fixed base after a prefix
+ *
+ * @param lead Pattern of the prefix before the digits, e.g. `u`
+ * @param digits Pattern of the digits
+ * @param radix Base of the digits
+ */
+function numeric(
+  lead: string,
+  digits: string,
+  radix: number,
+  options: { byte?: boolean, max?: number, suffix?: string } = {},
+): EscapeRule {
+  const { byte = false, max = byte ? 0xFF : 0x10FFFF, suffix = '' } = options
+  return {
+    pattern: new RegExp(`${lead}(${digits})${suffix}`, 'y'),
+    lead: lead ? new RegExp(lead, 'y') : undefined,
+    decode: (match) => {
+      const codePoint = Number.parseInt(match[1], radix)
+      return codePoint <= max ? String.fromCodePoint(codePoint) : undefined
+    },
+    byte,
+    // Digits right after the backslash are octal, `\x` escapes hexadecimal
+    category: lead === '' ? 'octal' : lead.startsWith('x') ? 'hex' : 'unicode',
+  }
+}
+
+/**
+ * Escaped line break that is removed from the string, optionally along with
+ * the leading whitespace of the next line
+ */
+function lineContinuation(skipIndent = false): EscapeRule {
+  return {
+    pattern: skipIndent ? /\r?\n\s*/y : /\r?\n/y,
+    decode: () => '',
+    category: 'line-continuation',
+  }
+}
+
+/**
+ * Common Unicode character names accepted by Python's `\N{...}` escape
+ */
+const UNICODE_NAMES: Record<string, number> = {
+  'BULLET': 0x2022,
+  'NO-BREAK SPACE': 0xA0,
+  'EN DASH': 0x2013,
+  'EM DASH': 0x2014,
+  'HORIZONTAL ELLIPSIS': 0x2026,
+  'LEFT SINGLE QUOTATION MARK': 0x2018,
+  'RIGHT SINGLE QUOTATION MARK': 0x2019,
+  'LEFT DOUBLE QUOTATION MARK': 0x201C,
+  'RIGHT DOUBLE QUOTATION MARK': 0x201D,
+  'DEGREE SIGN': 0xB0,
+  'COPYRIGHT SIGN': 0xA9,
+  'REGISTERED SIGN': 0xAE,
+  'TRADE MARK SIGN': 0x2122,
+  'SECTION SIGN': 0xA7,
+  'PILCROW SIGN': 0xB6,
+  'MIDDLE DOT': 0xB7,
+  'MULTIPLICATION SIGN': 0xD7,
+  'DIVISION SIGN': 0xF7,
+  'PLUS-MINUS SIGN': 0xB1,
+  'EURO SIGN': 0x20AC,
+  'POUND SIGN': 0xA3,
+  'YEN SIGN': 0xA5,
+  'MICRO SIGN': 0xB5,
+  'GREEK SMALL LETTER ALPHA': 0x3B1,
+  'GREEK SMALL LETTER BETA': 0x3B2,
+  'GREEK SMALL LETTER PI': 0x3C0,
+  'RIGHTWARDS ARROW': 0x2192,
+  'LEFTWARDS ARROW': 0x2190,
+  'CHECK MARK': 0x2713,
+  'ZERO WIDTH SPACE': 0x200B,
+  'ZERO WIDTH NON-JOINER': 0x200C,
+  'ZERO WIDTH JOINER': 0x200D,
+  'BYTE ORDER MARK': 0xFEFF,
+  'ZERO WIDTH NO-BREAK SPACE': 0xFEFF,
+  'REPLACEMENT CHARACTER': 0xFFFD,
+  'SPACE': 0x20,
+  'NULL': 0x00,
+  'LINE FEED': 0x0A,
+  'CARRIAGE RETURN': 0x0D,
+  'CHARACTER TABULATION': 0x09,
+  'GRINNING FACE': 0x1F600,
+  'THUMBS UP SIGN': 0x1F44D,
+  'HEAVY BLACK HEART': 0x2764,
+  'SNOWMAN': 0x2603,
+}
+
+/**
+ * Python `\N{NAME}` escape, resolved against {@link UNICODE_NAMES}. Other
+ * names are left as written, as they may well be valid.
+ */
+const namedEscape: EscapeRule = {
+  pattern: /N\{([^}\r\n]+)\}/y,
+  lead: /N/y,
+  decode: (match) => {
+    const codePoint = UNICODE_NAMES[match[1].toUpperCase()]
+    return codePoint === undefined ? undefined : String.fromCodePoint(codePoint)
+  },
+  category: 'named',
+  unresolved: true,
+}
+
+/**
+ * Shell `\cX` control character escape
+ */
+const controlEscape: EscapeRule = {
+  pattern: /c([\x40-\x7F])/y,
+  lead: /c/y,
+  decode: match => String.fromCharCode(match[1].toUpperCase().charCodeAt(0) & 0x1F),
+  category: 'control',
+}
+
+export const DIALECTS: Record<DialectId, Dialect> = {
+  'generic': {
+    id: 'generic',
+    label: 'Generic',
+    rules: [
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      numeric('x', '[\\da-fA-F]{2}', 16),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', '\\': '\\', '"': '"', '\'': '\'', '0': '\0', '`': '`', '$': '$' }),
+    ],
+  },
+  'javascript': {
+    id: 'javascript',
+    label: 'JavaScript / TypeScript',
+    rules: [
+      numeric('u\\{', '[\\da-fA-F]{1,6}', 16, { suffix: '\\}' }),
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      numeric('x', '[\\da-fA-F]{2}', 16),
+      numeric('', '0(?![0-9])', 8),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', '\\': '\\', '"': '"', '\'': '\'', '`': '`', '$': '$' }),
+      lineContinuation(),
+    ],
+  },
+  'json': {
+    id: 'json',
+    label: 'JSON (strict)',
+    rules: [
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', '\\': '\\', '"': '"', '/': '/' }),
+    ],
+  },
+  'java': {
+    id: 'java',
+    label: 'Java (strict)',
+    rules: [
+      numeric('u+', '[\\da-fA-F]{4}', 16),
+      numeric('', '[0-3][0-7]{2}|[0-7]{1,2}', 8),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 's': ' ', '\\': '\\', '"': '"', '\'': '\'' }),
+      lineContinuation(),
+    ],
+  },
+  'python': {
+    id: 'python',
+    label: 'Python',
+    rules: [
+      numeric('U', '[\\da-fA-F]{8}', 16),
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      numeric('x', '[\\da-fA-F]{2}', 16),
+      numeric('', '[0-7]{1,3}', 8, { max: 0x1FF }),
+      namedEscape,
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', 'a': '\x07', '\\': '\\', '"': '"', '\'': '\'' }),
+      lineContinuation(),
+    ],
+  },
+  'c': {
+    id: 'c',
+    label: 'C / C++',
+    utf8Bytes: true,
+    rules: [
+      numeric('U', '[\\da-fA-F]{8}', 16),
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      numeric('x', '[\\da-fA-F]+', 16, { byte: true }),
+      numeric('', '[0-7]{1,3}', 8, { byte: true }),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', 'a': '\x07', 'e': '\x1B', '?': '?', '\\': '\\', '"': '"', '\'': '\'' }),
+      lineContinuation(),
+    ],
+  },
+  'go': {
+    id: 'go',
+    label: 'Go',
+    utf8Bytes: true,
+    rules: [
+      numeric('U', '[\\da-fA-F]{8}', 16),
+      numeric('u', '[\\da-fA-F]{4}', 16),
+      numeric('x', '[\\da-fA-F]{2}', 16, { byte: true }),
+      numeric('', '[0-7]{3}', 8, { byte: true }),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', 'a': '\x07', '\\': '\\', '"': '"', '\'': '\'' }),
+    ],
+  },
+  'rust': {
+    id: 'rust',
+    label: 'Rust',
+    rules: [
+      numeric('u\\{', '[\\da-fA-F]{1,6}', 16, { suffix: '\\}' }),
+      numeric('x', '[\\da-fA-F]{2}', 16, { max: 0x7F }),
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', '0': '\0', '\\': '\\', '"': '"', '\'': '\'' }),
+      lineContinuation(true),
+    ],
+  },
+  'shell': {
+    id: 'shell',
+    label: 'Shell ($\'...\')',
+    utf8Bytes: true,
+    rules: [
+      numeric('U', '[\\da-fA-F]{1,8}', 16),
+      numeric('u', '[\\da-fA-F]{1,4}', 16),
+      numeric('x', '[\\da-fA-F]{1,2}', 16, { byte: true }),
+      numeric('', '[0-7]{1,3}', 8, { byte: true }),
+      controlEscape,
+      simple({ 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f', 'v': '\v', 'a': '\x07', 'e': '\x1B', 'E': '\x1B', '?': '?', '\\': '\\', '"': '"', '\'': '\'' }),
+    ],
+  },
+  'shell-double': {
+    id: 'shell-double',
+    label: 'Shell ("...")',
+    literalBackslash: true,
+    rules: [
+      simple({ '"': '"', '\\': '\\', '`': '`', '$': '$' }),
+      lineContinuation(),
+    ],
+  },
+  'single-quoted': {
+    id: 'single-quoted',
+    label: 'Single-quoted (PHP, Ruby)',
+    literalBackslash: true,
+    rules: [
+      simple({ '\'': '\'', '\\': '\\' }),
+    ],
+  },
+}
+
+/**
+ * Dialects used for VS Code language identifiers
+ */
+const LANGUAGE_DIALECTS: Record<string, DialectId> = {
+  'javascript': 'javascript',
+  'javascriptreact': 'javascript',
+  'typescript': 'javascript',
+  'typescriptreact': 'javascript',
+  'vue': 'javascript',
+  'svelte': 'javascript',
+  'json': 'json',
+  'jsonc': 'json',
+  'jsonl': 'json',
+  'json5': 'javascript',
+  'java': 'java',
+  'python': 'python',
+  'c': 'c',
+  'cpp': 'c',
+  'objective-c': 'c',
+  'objective-cpp': 'c',
+  'go': 'go',
+  'rust': 'rust',
+}
+
+/**
+ * Pick the dialect for a string literal from the document language and the
+ * detected quote style
+ */
+export function detectDialect(languageId: string, quoteStyle?: QuoteStyle): DialectId {
+  // ANSI-C quoting is shell syntax whatever the document language is
+  if (quoteStyle?.prefix === '$' && quoteStyle.open === '\'') {
+    return 'shell'
+  }
+
+  // Single-quoted PHP and Ruby strings only escape the quote and backslash
+  if ((languageId === 'php' || languageId === 'ruby') && quoteStyle?.open === '\'' && !quoteStyle.prefix) {
+    return 'single-quoted'
+  }
+
+  // Other shell strings only escape what would end or expand them
+  if (languageId === 'shellscript' && quoteStyle?.open === '"') {
+    return 'shell-double'
+  }
+
+  if (LANGUAGE_DIALECTS[languageId]) {
+    return LANGUAGE_DIALECTS[languageId]
+  }
+
+  // Elsewhere, byte, formatted and unicode prefixes are Python syntax
+  if (quoteStyle?.prefix && /^[bfu]$/i.test(quoteStyle.prefix)) {
+    return 'python'
+  }
+
+  return 'generic'
+}
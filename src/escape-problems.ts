@@ -0,0 +1,146 @@
+import type { DialectId } from './dialects'
+import type { QuoteStyle } from './services/string-extractor'
+import type { UnescapeIssue, UnescapeIssueKind } from './unescape'
+import { escapeForQuoteStyle } from './escape'
+import { unescape, unescapeDetailed } from './unescape'
+
+/**
+ * Kinds of problems found in the body of a string literal
+ * - the malformed escape sequences of {@link UnescapeIssueKind}
+ * - `useless`: an escaped quote that does not need escaping, e.g. `\'`
+ *   inside double quotes
+ * - `control`: a control character written as is instead of escaped
+ */
+export type EscapeProblemKind = UnescapeIssueKind | 'useless' | 'control'
+
+/**
+ * Kinds of repairs of a problem
+ * - `remove-backslash`: keep the character after the backslash
+ * - `escape-backslash`: keep the backslash itself in the value
+ * - `replace`: write the intended value in a form valid for the dialect
+ * - `remove`: delete the sequence
+ */
+export type EscapeFixKind = 'remove-backslash' | 'escape-backslash' | 'replace' | 'remove'
+
+/**
+ * A repair of a problem: the text replacing its span
+ */
+export interface EscapeFix {
+  kind: EscapeFixKind
+  text: string
+}
+
+/**
+ * A problem in the body of a string literal
+ */
+export interface EscapeProblem {
+  kind: EscapeProblemKind
+  /** Offset of the problem in the literal body */
+  offset: number
+  /** Length of the problem in the literal body */
+  length: number
+  /** Possible repairs, the most likely first */
+  fixes: EscapeFix[]
+}
+
+const QUOTES = ['"', '\'', '`']
+
+/**
+ * Check if a character should be escaped rather than written as is. Line
+ * breaks belong in multi-line literals, and tabs are only forbidden in JSON.
+ */
+function isLiteralControl(char: string, quoteStyle: QuoteStyle, dialect: DialectId): boolean {
+  const code = char.charCodeAt(0)
+  if (code >= 0x20 && code !== 0x7F) {
+    return false
+  }
+  if (char === '\n' || char === '\r') {
+    return !quoteStyle.multiLine
+  }
+  return char !== '\t' || dialect === 'json'
+}
+
+/**
+ * Write a value in the body of a literal, or return null if the result does
+ * not unescape back to it
+ */
+function encode(value: string, quoteStyle: QuoteStyle, dialect: DialectId): string | null {
+  const text = escapeForQuoteStyle(value, quoteStyle)
+  return text !== null && unescape(text, dialect) === value ? text : null
+}
+
+/**
+ * Suggest repairs of a malformed escape sequence. An unknown sequence that
+ * is valid in other languages, e.g. `\x41` in JSON, is extended to its
+ * digits to be replaced as a whole.
+ */
+function fixIssue(content: string, { kind, offset, length }: UnescapeIssue, quoteStyle: QuoteStyle, dialect: DialectId): EscapeProblem {
+  if (kind === 'lone-surrogate' || kind === 'invalid-utf8') {
+    const text = encode('\uFFFD', quoteStyle, dialect)
+    const fixes: EscapeFix[] = text === null ? [] : [{ kind: 'replace', text }]
+    return { kind, offset, length, fixes: [...fixes, { kind: 'remove', text: '' }] }
+  }
+
+  // The sequence may well be valid, it is only noted
+  if (kind === 'unresolved') {
+    return { kind, offset, length, fixes: [] }
+  }
+
+  const fixes: EscapeFix[] = []
+  if (kind === 'unknown' || kind === 'invalid') {
+    const [first] = unescapeDetailed(content.slice(offset), 'generic', { mapping: true }).segments!
+    const text = first?.kind === 'escape'
+      ? encode(unescape(content.substr(offset, first.inputEnd), 'generic'), quoteStyle, dialect)
+      : null
+    if (text !== null) {
+      length = Math.max(length, first.inputEnd)
+      fixes.push({ kind: 'replace', text })
+    }
+    else if (kind === 'unknown') {
+      fixes.push({ kind: 'remove-backslash', text: content.substr(offset + 1, length - 1) })
+    }
+  }
+
+  fixes.push({ kind: 'escape-backslash', text: `\\${content.substr(offset, length)}` })
+  return { kind, offset, length, fixes }
+}
+
+/**
+ * Find problems in the body of a string literal: malformed escape sequences,
+ * quotes escaped without need and control characters written as is
+ *
+ * @param content The literal body, between the delimiters
+ * @param quoteStyle The quote style of the literal
+ * @param dialect The escape sequence grammar of the literal
+ * @returns The problems in order of offset, none for raw literals
+ */
+export function findEscapeProblems(content: string, quoteStyle: QuoteStyle, dialect: DialectId): EscapeProblem[] {
+  if (!quoteStyle.supportsEscape || quoteStyle.prefixDisablesEscape) {
+    return []
+  }
+
+  const { issues, segments } = unescapeDetailed(content, dialect, { mapping: true })
+  const problems = issues.map(issue => fixIssue(content, issue, quoteStyle, dialect))
+
+  for (const { kind, inputStart, inputEnd } of segments!) {
+    if (kind === 'escape') {
+      const escaped = content[inputStart + 1]
+      if (inputEnd - inputStart === 2 && QUOTES.includes(escaped) && escaped !== quoteStyle.close[0]) {
+        problems.push({ kind: 'useless', offset: inputStart, length: 2, fixes: [{ kind: 'remove-backslash', text: escaped }] })
+      }
+      continue
+    }
+
+    for (let offset = inputStart; offset < inputEnd; offset++) {
+      const char = content[offset]
+      // A CRLF line break is reported once
+      if (isLiteralControl(char, quoteStyle, dialect) && !(char === '\n' && content[offset - 1] === '\r')) {
+        const length = char === '\r' && content[offset + 1] === '\n' ? 2 : 1
+        const text = encode(content.substr(offset, length), quoteStyle, dialect)
+        problems.push({ kind: 'control', offset, length, fixes: text === null ? [] : [{ kind: 'replace', text }] })
+      }
+    }
+  }
+
+  return problems.sort((a, b) => a.offset - b.offset)
+}
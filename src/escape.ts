@@ -0,0 +1,244 @@
+import type { DialectId } from './dialects'
+import type { QuoteStyle } from './services/string-extractor'
+
+const shortEscapes: Record<string, string> = {
+  '\n': '\\n',
+  '\t': '\\t',
+  '\r': '\\r',
+  '\b': '\\b',
+  '\f': '\\f',
+}
+
+/**
+ * Format a UTF-16 code unit as a `\uXXXX` escape sequence
+ */
+function toUnicodeEscape(char: string): string {
+  return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+}
+
+/**
+ * Escape a control character, preferring the short form when the dialect
+ * has one. Rust has no `\b`, `\f` or `\uXXXX`, and C does not allow control
+ * characters as universal character names. Double-quoted shell strings and
+ * single-quoted strings have no such escapes and hold control characters as
+ * they are.
+ */
+function escapeControl(char: string, dialect: DialectId): string {
+  const code = char.charCodeAt(0)
+  switch (dialect) {
+    case 'rust':
+      return '\n\r\t'.includes(char) ? shortEscapes[char] : `\\x${code.toString(16).padStart(2, '0')}`
+    case 'c':
+      return shortEscapes[char] ?? `\\${code.toString(8).padStart(3, '0')}`
+    case 'shell-double':
+    case 'single-quoted':
+      return char
+    default:
+      return shortEscapes[char] ?? toUnicodeEscape(char)
+  }
+}
+
+/**
+ * Check if a character is a control character that must not appear raw
+ */
+function isControl(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return code < 0x20 || code === 0x7F
+}
+
+/**
+ * Check if a raw quote style is a Rust raw string, `r"..."`, `r#"..."#` or
+ * `br"..."`. Unlike Python raw strings, they span lines.
+ */
+function isRustRaw({ prefix, open, multiLine }: QuoteStyle): boolean {
+  return prefix !== undefined && /^b?r#*$/.test(prefix) && open === '"' && multiLine
+}
+
+/**
+ * Check if a raw quote style is a Python raw string, whose `r` prefix may be
+ * in any case and combined with `b` or `f`
+ */
+function isPythonRaw(quoteStyle: QuoteStyle): boolean {
+  return quoteStyle.prefix !== undefined && /^(?:[bf]?r|r[bf])$/i.test(quoteStyle.prefix) && !isRustRaw(quoteStyle)
+}
+
+/**
+ * Escape text for a raw quote style, where backslashes are kept literally.
+ * Returns null when the text cannot be represented in that style.
+ */
+function escapeRaw(text: string, quoteStyle: QuoteStyle): string | null {
+  const { close, multiLine, prefix } = quoteStyle
+
+  // C# verbatim strings escape a double quote by doubling it
+  if (prefix?.includes('@')) {
+    return text.replace(/"/g, '""')
+  }
+
+  // Rust raw strings end with a quote followed by the same number of #
+  const closeToMatch = isRustRaw(quoteStyle)
+    ? `"${prefix!.match(/#*$/)![0]}`
+    : close
+
+  if (text.includes(closeToMatch)) {
+    return null
+  }
+
+  if (!multiLine && /[\r\n]/.test(text)) {
+    return null
+  }
+
+  // Python raw strings cannot end with an odd number of backslashes,
+  // nor with a character that merges into the closing quote
+  if (isPythonRaw(quoteStyle)) {
+    const trailingBackslashes = text.match(/\\*$/)![0].length
+    if (trailingBackslashes % 2 === 1 || text.endsWith(close[0])) {
+      return null
+    }
+  }
+
+  return text
+}
+
+/**
+ * Escape text so that it can be written back as the body of a string literal
+ * with the given quote style. Returns null when the text cannot be represented
+ * in that style (e.g. a raw string containing its own closing delimiter).
+ * Line breaks, CRLF included, are kept as they are in multi-line literals.
+ *
+ * @param text The value to write
+ * @param quoteStyle The quote style of the literal
+ * @param dialect The escape sequence grammar of the literal, which sets how
+ * control characters are written
+ */
+export function escapeForQuoteStyle(text: string, quoteStyle: QuoteStyle, dialect: DialectId = 'generic'): string | null {
+  if (!quoteStyle.supportsEscape || quoteStyle.prefixDisablesEscape) {
+    return escapeRaw(text, quoteStyle)
+  }
+
+  const { close, multiLine, prefix, open } = quoteStyle
+  const quoteChar = close[0]
+  const isTemplate = open === '`'
+  const isBytes = prefix === 'b'
+
+  // Quotes in a trailing run would merge with the closing delimiter
+  let trailingQuotes = text.length
+  while (trailingQuotes > 0 && text[trailingQuotes - 1] === quoteChar) {
+    trailingQuotes--
+  }
+
+  let result = ''
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === '\\') {
+      result += '\\\\'
+    }
+    else if (char === quoteChar && (text.startsWith(close, i) || i >= trailingQuotes)) {
+      result += `\\${char}`
+    }
+    else if (isTemplate && text.startsWith('${', i)) {
+      result += '\\$'
+    }
+    else if (dialect === 'shell-double' && (char === '$' || char === '`')) {
+      result += `\\${char}`
+    }
+    else if (char === '\n' && multiLine) {
+      result += char
+    }
+    else if (char === '\r' && text[i + 1] === '\n' && multiLine) {
+      result += '\r\n'
+      i++
+    }
+    else if (isControl(char)) {
+      result += escapeControl(char, dialect)
+    }
+    else if (isBytes && char.charCodeAt(0) > 0x7E) {
+      if (char.charCodeAt(0) > 0xFF) {
+        return null
+      }
+      result += `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`
+    }
+    else {
+      result += char
+    }
+  }
+
+  return result
+}
+
+/**
+ * Add back the indentation that `unescapeForQuoteStyle` strips from the
+ * lines of text blocks and `<<-` here-documents, so that an escaped body
+ * keeps the layout of the body it replaces. In text blocks, the last line is
+ * the indentation of the closing delimiter.
+ *
+ * @param body The escaped body to write
+ * @param original The body as it is in the source, to take the indentation from
+ * @param quoteStyle The quote style of the literal
+ */
+export function restoreIndent(body: string, original: string, quoteStyle: QuoteStyle): string {
+  if (!quoteStyle.stripIndent) {
+    return body
+  }
+
+  const common = quoteStyle.stripIndent === 'common'
+  const isIndented = (line: string, index: number, lines: string[]): boolean =>
+    line.trim() !== '' || (common && index === lines.length - 1)
+
+  // The lines that set the indentation when it was stripped
+  const indents = original.split('\n')
+    .filter(isIndented)
+    .map(line => line.match(common ? /^[ \t]*/ : /^\t*/)![0])
+  const indent = indents.reduce((shortest, current) => current.length < shortest.length ? current : shortest, indents[0] ?? '')
+
+  return body.split('\n').map((line, index, lines) => isIndented(line, index, lines) ? indent + line : line).join('\n')
+}
+
+/**
+ * Target literal styles supported by {@link escapeLiteral}
+ */
+export type EscapeTarget = 'json' | 'single' | 'template' | 'python' | 'go' | 'rust-raw'
+
+/**
+ * A string literal split into its delimiters and body
+ */
+export interface EscapedLiteral {
+  /** Opening delimiter, including any prefix */
+  open: string
+  /** The escaped literal body */
+  body: string
+  /** Closing delimiter */
+  close: string
+}
+
+const TARGET_QUOTE_STYLES: Record<Exclude<EscapeTarget, 'json' | 'rust-raw'>, QuoteStyle> = {
+  single: { open: '\'', close: '\'', supportsEscape: true, multiLine: false },
+  template: { open: '`', close: '`', supportsEscape: true, multiLine: true },
+  python: { open: '"', close: '"', supportsEscape: true, multiLine: false },
+  go: { open: '"', close: '"', supportsEscape: true, multiLine: false },
+}
+
+/**
+ * Escape text into a string literal of the given target style
+ */
+export function escapeLiteral(text: string, target: EscapeTarget): EscapedLiteral {
+  if (target === 'json') {
+    // JSON.stringify produces the minimal escaping JSON requires
+    return { open: '"', body: JSON.stringify(text).slice(1, -1), close: '"' }
+  }
+
+  if (target === 'rust-raw') {
+    // Use one more # than the longest run following a quote in the text
+    const runs = text.match(/"#*/g) ?? []
+    const hashCount = runs.length > 0 ? Math.max(...runs.map(run => run.length)) : 0
+    const hashes = '#'.repeat(hashCount)
+    return { open: `r${hashes}"`, body: text, close: `"${hashes}` }
+  }
+
+  const quoteStyle = TARGET_QUOTE_STYLES[target]
+  return {
+    open: quoteStyle.open,
+    body: escapeForQuoteStyle(text, quoteStyle)!,
+    close: quoteStyle.close,
+  }
+}
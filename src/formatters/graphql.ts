@@ -0,0 +1,145 @@
+const INDENT = '  '
+
+const GRAPHQL_TOKEN = /[\s,]+|#[^\n]*|"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|\.\.\.|-?\d+(?:\.\d+)?(?:e[+-]?\d+)?|[_a-z]\w*|[!$&()[\]{}:=@|]/giy
+
+/**
+ * Split GraphQL into names, values, comments and punctuation, dropping
+ * whitespace and commas, or return null if it has an invalid character or
+ * an unterminated string
+ */
+function tokenizeGraphql(text: string): string[] | null {
+  const tokens: string[] = []
+  GRAPHQL_TOKEN.lastIndex = 0
+
+  while (GRAPHQL_TOKEN.lastIndex < text.length) {
+    const match = GRAPHQL_TOKEN.exec(text)
+    if (!match) {
+      return null
+    }
+    if (!/^[\s,]/.test(match[0])) {
+      tokens.push(match[0])
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Check if a token ends a value or a selection, so that a name after it
+ * starts a new one
+ */
+function endsItem(token: string | undefined): boolean {
+  return token !== undefined && /^[\w"\-)\]}!]/.test(token) && token !== 'on'
+}
+
+/**
+ * Put each field of GraphQL selection sets on its own line, indented by
+ * nesting, with arguments kept on the line of their field
+ *
+ * @param text The GraphQL document to format
+ * @returns The formatted document, or null if it is not valid
+ */
+export function formatGraphql(text: string): string | null {
+  const tokens = tokenizeGraphql(text)
+  if (!tokens) {
+    return null
+  }
+
+  const lines: string[] = []
+  let line = ''
+  // Nesting of selection sets, and of arguments and values inside them
+  let depth = 0
+  let inline = 0
+
+  const newLine = (): void => {
+    if (line.trim()) {
+      lines.push(line.trimEnd())
+    }
+    line = INDENT.repeat(depth)
+  }
+  const write = (value: string, space: boolean): void => {
+    line += space && line.trim() ? ` ${value}` : value
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]
+    const previous = tokens[index - 1]
+
+    if (token.startsWith('#')) {
+      write(token, true)
+      newLine()
+      continue
+    }
+
+    if (inline > 0) {
+      if (/^[([{]$/.test(token)) {
+        inline++
+      }
+      else if (/^[)\]}]$/.test(token)) {
+        inline--
+      }
+
+      // Separate arguments and list items with commas
+      const separate = endsItem(previous) && !/^[)\]}:!=]$/.test(token) && !/^[([{:=$@]$/.test(previous!)
+      if (separate) {
+        line += ','
+      }
+      write(token, separate || previous === ':' || previous === '=' || token === '=')
+      continue
+    }
+
+    switch (token) {
+      case '{':
+        write('{', true)
+        depth++
+        newLine()
+        break
+      case '}':
+        if (depth === 0) {
+          return null
+        }
+        depth--
+        newLine()
+        write('}', false)
+        if (depth === 0) {
+          newLine()
+          lines.push('')
+        }
+        break
+      case '(':
+      case '[':
+        inline++
+        write(token, false)
+        break
+      case ')':
+      case ']':
+        return null
+      default: {
+        // A name or spread after a complete field starts the next field
+        const startsField = depth > 0 && (token === '...' || (/^[_a-z]/i.test(token) && endsItem(previous) && previous !== '...'))
+        if (startsField) {
+          newLine()
+        }
+        const attached = previous === '$' || previous === '@' || (previous === '...' && token !== 'on') || token === ':' || token === '!'
+        write(token, !attached)
+      }
+    }
+  }
+
+  if (depth > 0 || inline > 0) {
+    return null
+  }
+  newLine()
+  while (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Check if text looks like a GraphQL operation or fragment
+ */
+export function isGraphql(text: string): boolean {
+  return /^\s*(?:(?:query|mutation|subscription)\b[^{]*|fragment\s+\w+\s+on\s+\w[^{]*)?\{\s*[_a-z]/i.test(text)
+    && formatGraphql(text) !== null
+}
@@ -0,0 +1,107 @@
+import { formatGraphql, isGraphql } from './graphql'
+import { formatMarkup, isHtml, isXml } from './markup'
+import { formatSql, isSql } from './sql'
+import { formatStackTrace, isStackTrace } from './stack-trace'
+import { formatYaml, isYaml } from './yaml'
+
+/**
+ * Identifiers of the available formatters
+ */
+export type FormatterId = 'json' | 'html' | 'xml' | 'graphql' | 'stack-trace' | 'sql' | 'yaml'
+
+/**
+ * A pretty-printer for one kind of content
+ */
+export interface Formatter {
+  id: FormatterId
+  /** Display name */
+  label: string
+  /** VS Code language of the formatted text, for syntax highlighting */
+  language: string
+  /** Check if text looks like this kind of content */
+  detect: (text: string) => boolean
+  /** Format text, or return null when it is not valid for this formatter */
+  format: (text: string) => string | null
+}
+
+/**
+ * Check if text is a JSON object or array
+ */
+function isJsonStructure(text: string): boolean {
+  if (!/^\s*[{[]/.test(text)) {
+    return false
+  }
+  try {
+    JSON.parse(text)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * The formatters, in the order they are tried by {@link detectFormatter}:
+ * the most specific first
+ */
+export const FORMATTERS: Record<FormatterId, Formatter> = {
+  'json': {
+    id: 'json',
+    label: 'JSON',
+    language: 'json',
+    detect: isJsonStructure,
+    format: text => isJsonStructure(text) ? JSON.stringify(JSON.parse(text), null, 2) : null,
+  },
+  'html': {
+    id: 'html',
+    label: 'HTML',
+    language: 'html',
+    detect: isHtml,
+    format: text => formatMarkup(text, true),
+  },
+  'xml': {
+    id: 'xml',
+    label: 'XML',
+    language: 'xml',
+    detect: isXml,
+    format: text => formatMarkup(text, false),
+  },
+  'graphql': {
+    id: 'graphql',
+    label: 'GraphQL',
+    language: 'graphql',
+    detect: isGraphql,
+    format: formatGraphql,
+  },
+  'stack-trace': {
+    id: 'stack-trace',
+    label: 'Stack trace',
+    language: 'log',
+    detect: isStackTrace,
+    format: formatStackTrace,
+  },
+  'sql': {
+    id: 'sql',
+    label: 'SQL',
+    language: 'sql',
+    detect: isSql,
+    format: formatSql,
+  },
+  'yaml': {
+    id: 'yaml',
+    label: 'YAML',
+    language: 'yaml',
+    detect: isYaml,
+    format: formatYaml,
+  },
+}
+
+/**
+ * Find the formatter for the content of a text
+ *
+ * @param text The text to format
+ * @returns The first formatter that detects the text, or null
+ */
+export function detectFormatter(text: string): Formatter | null {
+  return Object.values(FORMATTERS).find(formatter => formatter.detect(text)) ?? null
+}
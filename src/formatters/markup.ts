@@ -0,0 +1,237 @@
+const INDENT = '  '
+
+/**
+ * HTML elements that never have content or a closing tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+/**
+ * HTML elements whose content is not markup, or where whitespace matters
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'pre', 'textarea'])
+
+/**
+ * HTML elements closed by the start of a sibling of the same kind
+ */
+const SELF_NESTING_ELEMENTS = new Set(['li', 'p', 'tr', 'td', 'th', 'option'])
+
+/**
+ * Elements that identify a document or fragment as HTML
+ */
+const HTML_ELEMENTS = new Set([
+  ...VOID_ELEMENTS,
+  ...RAW_TEXT_ELEMENTS,
+  'html',
+  'head',
+  'body',
+  'title',
+  'div',
+  'span',
+  'p',
+  'a',
+  'ul',
+  'ol',
+  'li',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'td',
+  'th',
+  'form',
+  'button',
+  'label',
+  'select',
+  'option',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'nav',
+  'main',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'strong',
+  'em',
+  'b',
+  'i',
+  'code',
+  'svg',
+])
+
+type MarkupTokenKind = 'open' | 'close' | 'self-closing' | 'other' | 'text' | 'raw'
+
+interface MarkupToken {
+  kind: MarkupTokenKind
+  text: string
+  /** Element name of tags, lower case in HTML */
+  name?: string
+}
+
+const MARKUP_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([a-z_][\w:.-]*)(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*(\/?)>|[^<]+/giy
+
+/**
+ * Split markup into tags, text and other nodes, or return null if it
+ * contains something that is not markup, such as a lone `<`
+ */
+function tokenizeMarkup(text: string, html: boolean): MarkupToken[] | null {
+  const tokens: MarkupToken[] = []
+  MARKUP_TOKEN.lastIndex = 0
+
+  while (MARKUP_TOKEN.lastIndex < text.length) {
+    const match = MARKUP_TOKEN.exec(text)
+    if (!match) {
+      return null
+    }
+
+    const [token, slash, tagName, selfClosing] = match
+    if (tagName === undefined) {
+      tokens.push({ kind: token.startsWith('<') ? 'other' : 'text', text: token })
+      continue
+    }
+
+    const name = html ? tagName.toLowerCase() : tagName
+    if (slash) {
+      tokens.push({ kind: 'close', text: token, name })
+      continue
+    }
+    if (selfClosing || (html && VOID_ELEMENTS.has(name))) {
+      tokens.push({ kind: 'self-closing', text: token, name })
+      continue
+    }
+    tokens.push({ kind: 'open', text: token, name })
+
+    // Keep the content of raw text elements as it is
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      const end = text.toLowerCase().indexOf(`</${name}`, MARKUP_TOKEN.lastIndex)
+      if (end === -1) {
+        return null
+      }
+      if (end > MARKUP_TOKEN.lastIndex) {
+        tokens.push({ kind: 'raw', text: text.slice(MARKUP_TOKEN.lastIndex, end) })
+      }
+      MARKUP_TOKEN.lastIndex = end
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Indent markup by element nesting, keeping elements that only hold a short
+ * text on one line. XML must be well-formed, HTML closing tags may be
+ * omitted.
+ *
+ * @param text The markup to format
+ * @param html Whether to follow HTML rules: case-insensitive names, void and
+ * raw text elements, optional closing tags
+ * @returns The formatted markup, or null if it is not valid
+ */
+export function formatMarkup(text: string, html: boolean): string | null {
+  const tokens = tokenizeMarkup(text.trim(), html)
+  if (!tokens) {
+    return null
+  }
+
+  const lines: string[] = []
+  const open: string[] = []
+  const push = (line: string): void => {
+    lines.push(INDENT.repeat(open.length) + line)
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]
+    switch (token.kind) {
+      case 'text':
+        token.text.split('\n').map(line => line.trim()).filter(Boolean).forEach(push)
+        break
+      case 'raw':
+        lines[lines.length - 1] += token.text
+        break
+      case 'open': {
+        if (html && SELF_NESTING_ELEMENTS.has(token.name!) && open[open.length - 1] === token.name) {
+          open.pop()
+        }
+
+        // Keep <a>text</a> and <a></a> on one line
+        const next = tokens[index + 1]
+        const after = tokens[index + 2]
+        if (next?.kind === 'close' && next.name === token.name) {
+          push(token.text + next.text)
+          index += 1
+          break
+        }
+        if (next?.kind === 'text' && !next.text.trim().includes('\n') && after?.kind === 'close' && after.name === token.name) {
+          push(token.text + next.text.trim() + after.text)
+          index += 2
+          break
+        }
+        push(token.text)
+        open.push(token.name!)
+        break
+      }
+      case 'close': {
+        // XML elements close in order, HTML ones may be closed implicitly
+        const depth = open.lastIndexOf(token.name!)
+        if (!html && (depth === -1 || depth !== open.length - 1)) {
+          return null
+        }
+        if (depth !== -1) {
+          open.length = depth
+        }
+        if (tokens[index - 1]?.kind === 'raw') {
+          lines[lines.length - 1] += token.text
+        }
+        else {
+          push(token.text)
+        }
+        break
+      }
+      default:
+        push(token.text)
+    }
+  }
+
+  return !html && open.length > 0 ? null : lines.join('\n')
+}
+
+/**
+ * Check if text looks like HTML: a doctype or an HTML element first
+ */
+export function isHtml(text: string): boolean {
+  const trimmed = text.trim()
+  if (/^<!doctype html\b/i.test(trimmed)) {
+    return true
+  }
+  const first = /^(?:<!--[\s\S]*?-->\s*)*<([a-z][\w-]*)/i.exec(trimmed)
+  return first !== null && HTML_ELEMENTS.has(first[1].toLowerCase()) && trimmed.endsWith('>')
+}
+
+/**
+ * Check if text looks like XML: a declaration, or well-formed elements
+ */
+export function isXml(text: string): boolean {
+  const trimmed = text.trim()
+  if (/^<\?xml\b/.test(trimmed)) {
+    return true
+  }
+  return /^<[a-z_]/i.test(trimmed) && trimmed.endsWith('>') && formatMarkup(trimmed, false) !== null
+}
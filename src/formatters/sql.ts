@@ -0,0 +1,300 @@
+const INDENT = '  '
+
+/**
+ * Clauses that start a new line, longest first so that multi-word clauses
+ * win over their first word
+ */
+const CLAUSES = [
+  'LEFT OUTER JOIN',
+  'RIGHT OUTER JOIN',
+  'FULL OUTER JOIN',
+  'INSERT INTO',
+  'DELETE FROM',
+  'GROUP BY',
+  'ORDER BY',
+  'UNION ALL',
+  'LEFT JOIN',
+  'RIGHT JOIN',
+  'FULL JOIN',
+  'INNER JOIN',
+  'CROSS JOIN',
+  'ON CONFLICT',
+  'SELECT',
+  'FROM',
+  'WHERE',
+  'HAVING',
+  'LIMIT',
+  'OFFSET',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+  'VALUES',
+  'UPDATE',
+  'SET',
+  'RETURNING',
+  'WITH',
+  'JOIN',
+]
+
+/**
+ * Clauses followed by a list of items, one per line
+ */
+const LIST_CLAUSES = new Set(['SELECT', 'GROUP BY', 'ORDER BY', 'SET', 'RETURNING'])
+
+/**
+ * Other keywords, written in upper case
+ */
+const KEYWORDS = new Set([
+  'ALL',
+  'AND',
+  'AS',
+  'ASC',
+  'BETWEEN',
+  'BY',
+  'CASE',
+  'DESC',
+  'DISTINCT',
+  'DO',
+  'ELSE',
+  'END',
+  'EXISTS',
+  'FALSE',
+  'IN',
+  'IS',
+  'LIKE',
+  'NOT',
+  'NOTHING',
+  'NULL',
+  'ON',
+  'OR',
+  'THEN',
+  'TRUE',
+  'USING',
+  'WHEN',
+])
+
+/**
+ * An open parenthesis, with the state to restore when it closes
+ */
+interface Parenthesis {
+  /** Whether it holds a subquery, laid out like a statement */
+  subquery: boolean
+  base: number
+  list: boolean
+  /** Indentation of the line it opened on */
+  indent: number
+}
+
+const SQL_TOKEN = /\s+|--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|[a-z_][\w$]*|\d+(?:\.\d+)?|::|[:@$?]\w*|<=|>=|<>|!=|\|\||[^\s\w]/giy
+
+/**
+ * Split SQL into words, literals, comments and punctuation, dropping
+ * whitespace, or return null if it has an unterminated literal
+ */
+function tokenizeSql(text: string): string[] | null {
+  const tokens: string[] = []
+  SQL_TOKEN.lastIndex = 0
+
+  while (SQL_TOKEN.lastIndex < text.length) {
+    const match = SQL_TOKEN.exec(text)
+    if (!match || /^['"`]$/.test(match[0])) {
+      return null
+    }
+    if (match[0].trim()) {
+      tokens.push(match[0])
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Match the clause starting at a token, if any
+ */
+function matchClause(tokens: string[], index: number): string | undefined {
+  return CLAUSES.find((clause) => {
+    const words = clause.split(' ')
+    return words.every((word, offset) => tokens[index + offset]?.toUpperCase() === word)
+  })
+}
+
+/**
+ * Check if a token is a word that is not a keyword, such as a function name
+ */
+function isIdentifier(token: string | undefined): boolean {
+  return token !== undefined && /^[a-z_]/i.test(token) && !KEYWORDS.has(token.toUpperCase()) && !matchClause([token], 0)
+}
+
+/**
+ * Put each clause of SQL statements on its own line, with the items of
+ * select lists and the conditions of where clauses indented below them, and
+ * keywords in upper case
+ *
+ * @param text The SQL to format
+ * @returns The formatted SQL, or null if it cannot be tokenized
+ */
+export function formatSql(text: string): string | null {
+  const tokens = tokenizeSql(text)
+  if (!tokens) {
+    return null
+  }
+
+  const lines: string[] = []
+  const parentheses: Parenthesis[] = []
+  let line = ''
+  // Indentation of the clauses of the current (sub)query
+  let base = 0
+  // Whether commas separate list items on their own lines
+  let list = false
+  let between = false
+
+  const indentOf = (value: string): number => (value.length - value.trimStart().length) / INDENT.length
+  const newLine = (indent: number): void => {
+    if (line.trim()) {
+      lines.push(line.trimEnd())
+    }
+    line = INDENT.repeat(indent)
+  }
+  const write = (value: string, space = true): void => {
+    line += space && line.trim() && !/[(.]$|::$/.test(line) ? ` ${value}` : value
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]
+    const upper = token.toUpperCase()
+    const inParentheses = parentheses.length > 0 && !parentheses[parentheses.length - 1].subquery
+    const clause = inParentheses ? undefined : matchClause(tokens, index)
+
+    if (clause) {
+      newLine(base)
+      write(clause)
+      index += clause.split(' ').length - 1
+      list = LIST_CLAUSES.has(clause)
+      if (list) {
+        newLine(base + 1)
+      }
+      continue
+    }
+
+    if (token.startsWith('--')) {
+      write(token)
+      newLine(indentOf(line) || base + 1)
+      continue
+    }
+
+    if ((upper === 'AND' || upper === 'OR') && !inParentheses && !between) {
+      newLine(base + 1)
+      write(upper)
+      continue
+    }
+
+    switch (token) {
+      case '(': {
+        const next = tokens[index + 1]?.toUpperCase()
+        const subquery = next === 'SELECT' || next === 'WITH'
+        write('(', !isIdentifier(tokens[index - 1]))
+        parentheses.push({ subquery, base, list, indent: indentOf(line) })
+        if (subquery) {
+          base = indentOf(line) + 1
+        }
+        break
+      }
+      case ')': {
+        const parenthesis = parentheses.pop()
+        if (parenthesis?.subquery) {
+          base = parenthesis.base
+          list = parenthesis.list
+          newLine(parenthesis.indent)
+        }
+        write(')', false)
+        break
+      }
+      case ',':
+        write(',', false)
+        if (list && !inParentheses) {
+          newLine(base + 1)
+        }
+        break
+      case ';':
+        write(';', false)
+        newLine(0)
+        lines.push('')
+        base = 0
+        list = false
+        break
+      case '.':
+      case '::':
+        write(token, false)
+        break
+      default:
+        write(KEYWORDS.has(upper) ? upper : token)
+    }
+
+    if (upper === 'BETWEEN') {
+      between = true
+    }
+    else if (upper === 'AND') {
+      between = false
+    }
+  }
+
+  newLine(0)
+  while (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines.join('\n')
+}
+
+/**
+ * A table name, possibly quoted or qualified by a schema
+ */
+const TABLE_NAME = '(?:\\w+|"[^"]*"|`[^`]*`|\\[[^\\]]*\\])(?:\\.(?:\\w+|"[^"]*"|`[^`]*`|\\[[^\\]]*\\]))*'
+
+/**
+ * Keywords that start a clause after a table name, e.g. `WHERE` or `JOIN`
+ */
+const NEXT_CLAUSE = [...new Set(CLAUSES.map(clause => clause.split(' ')[0]))].join('|')
+
+/**
+ * Check if a keyword is followed by a table name or subquery, then by the
+ * end of the statement or another clause. An alias is only accepted before
+ * another clause, so that prose like "from the list" is not taken for SQL.
+ */
+function hasTableClause(text: string, keyword: string): boolean {
+  return new RegExp(
+    `\\b${keyword}\\s+(?:\\(|${TABLE_NAME}(?:\\s*(?:$|[(,;)])|\\s+(?:(?:as\\s+)?\\w+\\s+)?(?:${NEXT_CLAUSE})\\b))`,
+    'i',
+  ).test(text)
+}
+
+/**
+ * Check if text starts like a SQL statement, with the keyword in upper or
+ * lower case so that prose such as "Select a file" is not taken for SQL.
+ * Queries and changes also need a table after `FROM`, `INTO` or `UPDATE`,
+ * which rules out lower case prose such as "select a file to open".
+ */
+export function isSql(text: string): boolean {
+  const match = /^\s*(select|insert\s+into|update|delete\s+from|with|create\s+(?:table|view|index)|alter\s+table|drop\s+table)\b/i.exec(text)
+  if (!match) {
+    return false
+  }
+
+  const keyword = match[1]
+  if (keyword !== keyword.toUpperCase() && keyword !== keyword.toLowerCase()) {
+    return false
+  }
+
+  switch (keyword.split(/\s/)[0].toLowerCase()) {
+    case 'select':
+    case 'delete':
+      return hasTableClause(text, 'from')
+    case 'insert':
+      return hasTableClause(text, 'into')
+    case 'update':
+      return hasTableClause(text, 'update') && /\bset\b/i.test(text)
+    case 'with':
+      return /\bas\s*\(/i.test(text)
+    default:
+      return true
+  }
+}
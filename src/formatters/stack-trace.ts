@@ -0,0 +1,83 @@
+const FRAME_INDENT = '    '
+
+/**
+ * Frames of Java, JavaScript and .NET stack traces
+ */
+const FRAME = /^at\s+\S.*(?:\)|:\d+(?::\d+)?|\bline\s+\d+)$/
+
+/**
+ * Lines that start an exception nested in a Java stack trace
+ */
+const NESTED = /^(?:Caused by|Suppressed):/
+
+/**
+ * Frames of Python tracebacks
+ */
+const PYTHON_FRAME = /^File\s+"[^"]*",\s+line\s+\d+/
+
+/**
+ * Split a stack trace that was joined into one line back into lines
+ */
+function splitFrames(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  if (lines.filter(line => line.trim()).length > 1) {
+    return lines
+  }
+  return text
+    .replace(/\s+(?=at\s+[\w$.<>[\]/-]+\s*\()/g, '\n')
+    .replace(/\s+(?=(?:Caused by|Suppressed):|\.\.\.\s+\d)/g, '\n')
+    .replace(/\s+(?=File\s+"[^"]*",\s+line\s+\d)/g, '\n')
+    .split('\n')
+}
+
+/**
+ * Put each frame of a stack trace on its own line, indented below the
+ * exception it belongs to. Handles Java (with nested causes), JavaScript,
+ * .NET and Python traces, including traces joined into a single line.
+ *
+ * @param text The stack trace to format
+ * @returns The formatted stack trace
+ */
+export function formatStackTrace(text: string): string {
+  const lines: string[] = []
+  let inPythonFrame = false
+
+  for (const raw of splitFrames(text)) {
+    const line = raw.trim()
+    if (!line) {
+      continue
+    }
+
+    if (FRAME.test(line) || /^\.\.\.\s+\d+\s+more\b/.test(line)) {
+      lines.push(FRAME_INDENT + line)
+      inPythonFrame = false
+    }
+    else if (PYTHON_FRAME.test(line)) {
+      lines.push(`  ${line}`)
+      inPythonFrame = true
+    }
+    else if (inPythonFrame) {
+      // The source line of the Python frame above
+      lines.push(FRAME_INDENT + line)
+      inPythonFrame = false
+    }
+    else {
+      lines.push(line)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Check if text looks like a stack trace: a Python traceback, or at least
+ * two frames
+ */
+export function isStackTrace(text: string): boolean {
+  if (/^Traceback \(most recent call last\):/m.test(text)) {
+    return true
+  }
+  const lines = splitFrames(text).map(line => line.trim())
+  return lines.filter(line => FRAME.test(line)).length >= 2
+    || (lines.some(line => NESTED.test(line)) && lines.some(line => FRAME.test(line)))
+}
@@ -0,0 +1,50 @@
+/**
+ * Lines that are a mapping entry, a sequence item, a comment or a document
+ * marker
+ */
+const YAML_LINE = /^\s*(?:#|- |-$|---|\.\.\.|(?:"[^"]*"|'[^']*'|[^\s#:"'{[][^#:]*):(?:\s|$))/
+
+/**
+ * Remove the common indentation and trailing whitespace of YAML, which often
+ * comes from the code the string was embedded in. Indentation is meaningful
+ * in YAML, so nothing else is changed.
+ *
+ * @param text The YAML to format
+ * @returns The formatted YAML, or null if it is indented with tabs
+ */
+export function formatYaml(text: string): string | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd())
+  while (lines.length > 0 && lines[0] === '') {
+    lines.shift()
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+
+  if (lines.some(line => /^\s*\t/.test(line))) {
+    return null
+  }
+
+  const indent = Math.min(...lines.filter(Boolean).map(line => line.length - line.trimStart().length))
+  return lines.map(line => line.slice(indent)).join('\n')
+}
+
+/**
+ * Check if text looks like YAML: a document marker, or mostly mapping
+ * entries and sequence items with at least one mapping entry
+ */
+export function isYaml(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0 || /^\s*[{[<]/.test(lines[0])) {
+    return false
+  }
+  if (/^---(?:\s|$)/.test(lines[0]) && lines.length > 1) {
+    return true
+  }
+
+  const entries = lines.filter(line => YAML_LINE.test(line))
+  return lines.length >= 2
+    && entries.length * 3 >= lines.length * 2
+    && YAML_LINE.test(lines[0])
+    && entries.some(line => /:(?:\s|$)/.test(line))
+}
@@ -0,0 +1,90 @@
+import type { LiteralSpan } from './services/literal-grammars'
+import { detectDialect } from './dialects'
+import { extractLiteralsFromText } from './services/string-extractor'
+import { unescape, unescapeForQuoteStyle } from './unescape'
+
+/**
+ * A replacement of escaped text by its unescaped value, as offsets
+ */
+export interface InPlaceEdit {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * A selection of the editor, as offsets. An empty selection is a cursor.
+ */
+export interface OffsetRange {
+  start: number
+  end: number
+}
+
+/**
+ * Replace a whole string literal, delimiters included, with its value, or
+ * return null if the literal has no escape sequences, like raw literals. The
+ * delimiters are not kept: a decoded quote or line break would end them, and
+ * the text would no longer hold the same value.
+ */
+function unescapeLiteral(text: string, literal: LiteralSpan, languageId: string): InPlaceEdit | null {
+  const { start, end, contentStart, contentEnd, quoteStyle } = literal
+  if (!quoteStyle.supportsEscape || quoteStyle.prefixDisablesEscape) {
+    return null
+  }
+
+  const content = text.slice(contentStart, contentEnd)
+  const value = unescapeForQuoteStyle(content, quoteStyle, detectDialect(languageId, quoteStyle))
+  return value === content ? null : { start, end, text: value }
+}
+
+/**
+ * Collect the replacements of a command: each selection, the literal at each
+ * cursor, or every literal of the text, in text order. Replacements that
+ * change nothing are left out, and of overlapping replacements, e.g. several
+ * cursors in one literal, the first is kept.
+ *
+ * @param text The text of the document
+ * @param languageId The language of the document
+ * @param selections The selections to unescape, or `all` for every literal
+ */
+export function collectEdits(text: string, languageId: string, selections: OffsetRange[] | 'all'): InPlaceEdit[] {
+  const literals = extractLiteralsFromText(text, languageId)
+  const edits: InPlaceEdit[] = []
+  const add = (edit: InPlaceEdit | null): void => {
+    if (edit && edit.text !== text.slice(edit.start, edit.end)) {
+      edits.push(edit)
+    }
+  }
+
+  if (selections === 'all') {
+    literals.forEach(literal => add(unescapeLiteral(text, literal, languageId)))
+  }
+  else {
+    for (const { start, end } of selections) {
+      if (start !== end) {
+        add({ start, end, text: unescape(text.slice(start, end), detectDialect(languageId)) })
+        continue
+      }
+      const literal = literals.find(literal => literal.start <= start && start < literal.end)
+      add(literal ? unescapeLiteral(text, literal, languageId) : null)
+    }
+  }
+
+  edits.sort((a, b) => a.start - b.start)
+  return edits.reduce<InPlaceEdit[]>((kept, edit) => {
+    const last = kept[kept.length - 1]
+    if (!last || last.end <= edit.start) {
+      kept.push(edit)
+    }
+    return kept
+  }, [])
+}
+
+/**
+ * Apply replacements that do not overlap to a text, e.g. for a dry-run diff
+ */
+export function applyToText(text: string, edits: InPlaceEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start)
+  return sorted.reduce((result, { start, end, text: replacement }) =>
+    result.slice(0, start) + replacement + result.slice(end), text)
+}
@@ -1,9 +1,43 @@
 import { defineExtension } from 'reactive-vscode'
+import { useClipboardCommands } from './commands/clipboard'
+import { useDecodeCommands } from './commands/decode'
+import { useEscapeCommands } from './commands/escape'
+import { useLogLinesCommand } from './commands/log-lines'
+import { useSearchDecodedCommand } from './commands/search-decoded'
+import { useSideBySideCommand } from './commands/side-by-side'
+import { useUnescapeEditCommand } from './commands/unescape-edit'
+import { useUnescapeInPlaceCommands } from './commands/unescape-in-place'
 import { useUnescapePreviewCommand } from './commands/unescape-preview'
+import { useUnicodeEscapeCommands } from './commands/unicode-escapes'
+import { useEscapeDiagnostics } from './providers/escape-diagnostics'
+import { useInlineUnescapedValues } from './providers/inline-values'
+import { usePreviewHistory } from './providers/preview-history'
+import { useQuoteConversionActions } from './providers/quote-conversion'
+import { useUnescapeHover } from './providers/unescape-hover'
+import { useCustomGrammars } from './services/custom-grammars'
 
 const { activate, deactivate } = defineExtension(() => {
+  // Load settings used by the string extraction
+  useCustomGrammars()
+
   // Register commands
   useUnescapePreviewCommand()
+  useUnescapeEditCommand()
+  useUnescapeInPlaceCommands()
+  useUnicodeEscapeCommands()
+  useEscapeCommands()
+  useClipboardCommands()
+  useDecodeCommands()
+  useLogLinesCommand()
+  useSearchDecodedCommand()
+  useSideBySideCommand()
+
+  // Register providers
+  useUnescapeHover()
+  useInlineUnescapedValues()
+  useEscapeDiagnostics()
+  useQuoteConversionActions()
+  usePreviewHistory()
 })
 
 export { activate, deactivate }
@@ -0,0 +1,246 @@
+/**
+ * Kinds of characters that are invisible or easily mistaken for others
+ * - `control`: C0 and C1 control characters and line separators
+ * - `format`: zero-width and other format characters, e.g. U+200B, U+FEFF
+ * - `space`: spaces other than U+0020, e.g. the non-breaking space
+ * - `bidi`: bidirectional controls, which can make text read differently
+ *   from how it runs (Trojan Source)
+ */
+export type InvisibleKind = 'control' | 'format' | 'space' | 'bidi'
+
+/**
+ * An invisible character and how often it occurs
+ */
+export interface InvisibleCharacter {
+  codePoint: number
+  /** Short name such as `ZWSP`, or an empty string */
+  name: string
+  kind: InvisibleKind
+  count: number
+  /** Offset of the first occurrence in the text */
+  offset: number
+}
+
+/**
+ * A word mixing letters of several scripts, which may hide look-alike
+ * characters such as the Cyrillic `а` in `pаypal`
+ */
+export interface MixedScriptWord {
+  word: string
+  /** Scripts of the letters of the word, in order of appearance */
+  scripts: string[]
+  /** Offset of the word in the text */
+  offset: number
+}
+
+/**
+ * Text with its invisible characters rendered as markers, and what was found
+ */
+export interface InvisiblesReport {
+  /** The text with each invisible character replaced by a marker */
+  text: string
+  /** Invisible characters found, in order of code point */
+  characters: InvisibleCharacter[]
+  mixedScriptWords: MixedScriptWord[]
+}
+
+const C0_NAMES = [
+  'NUL',
+  'SOH',
+  'STX',
+  'ETX',
+  'EOT',
+  'ENQ',
+  'ACK',
+  'BEL',
+  'BS',
+  'HT',
+  'LF',
+  'VT',
+  'FF',
+  'CR',
+  'SO',
+  'SI',
+  'DLE',
+  'DC1',
+  'DC2',
+  'DC3',
+  'DC4',
+  'NAK',
+  'SYN',
+  'ETB',
+  'CAN',
+  'EM',
+  'SUB',
+  'ESC',
+  'FS',
+  'GS',
+  'RS',
+  'US',
+]
+
+const NAMED: Record<number, [InvisibleKind, string]> = {
+  0x7F: ['control', 'DEL'],
+  0x85: ['control', 'NEL'],
+  0x2028: ['control', 'LSEP'],
+  0x2029: ['control', 'PSEP'],
+  0xAD: ['format', 'SHY'],
+  0x34F: ['format', 'CGJ'],
+  0x180E: ['format', 'MVS'],
+  0x200B: ['format', 'ZWSP'],
+  0x200C: ['format', 'ZWNJ'],
+  0x200D: ['format', 'ZWJ'],
+  0x2060: ['format', 'WJ'],
+  0xFEFF: ['format', 'BOM'],
+  0xA0: ['space', 'NBSP'],
+  0x1680: ['space', 'OGHAM SPACE'],
+  0x202F: ['space', 'NNBSP'],
+  0x205F: ['space', 'MMSP'],
+  0x3000: ['space', 'IDEOGRAPHIC SPACE'],
+  0x61C: ['bidi', 'ALM'],
+  0x200E: ['bidi', 'LRM'],
+  0x200F: ['bidi', 'RLM'],
+  0x202A: ['bidi', 'LRE'],
+  0x202B: ['bidi', 'RLE'],
+  0x202C: ['bidi', 'PDF'],
+  0x202D: ['bidi', 'LRO'],
+  0x202E: ['bidi', 'RLO'],
+  0x2066: ['bidi', 'LRI'],
+  0x2067: ['bidi', 'RLI'],
+  0x2068: ['bidi', 'FSI'],
+  0x2069: ['bidi', 'PDI'],
+}
+
+/**
+ * Scripts checked for mixing, by code point range
+ */
+const SCRIPTS: [string, number, number][] = [
+  ['Latin', 0x41, 0x5A],
+  ['Latin', 0x61, 0x7A],
+  ['Latin', 0xC0, 0x24F],
+  ['Greek', 0x370, 0x3FF],
+  ['Cyrillic', 0x400, 0x52F],
+  ['Armenian', 0x531, 0x58F],
+  ['Greek', 0x1F00, 0x1FFF],
+  ['Fullwidth Latin', 0xFF21, 0xFF3A],
+  ['Fullwidth Latin', 0xFF41, 0xFF5A],
+]
+
+/**
+ * Classify a character that is invisible or easily mistaken for another
+ *
+ * @returns The kind and short name of the character, or null for ordinary
+ * characters, including tabs and line feeds
+ */
+export function classifyCharacter(codePoint: number): { kind: InvisibleKind, name: string } | null {
+  if (codePoint < 0x20) {
+    return codePoint === 0x09 || codePoint === 0x0A ? null : { kind: 'control', name: C0_NAMES[codePoint] }
+  }
+  if (NAMED[codePoint]) {
+    const [kind, name] = NAMED[codePoint]
+    return { kind, name }
+  }
+  if (codePoint >= 0x80 && codePoint <= 0x9F) {
+    return { kind: 'control', name: '' }
+  }
+  if (codePoint >= 0x2000 && codePoint <= 0x200A) {
+    return { kind: 'space', name: '' }
+  }
+  // Invisible math operators, and tags that can smuggle ASCII text
+  if ((codePoint >= 0x2061 && codePoint <= 0x2064) || (codePoint >= 0xE0000 && codePoint <= 0xE007F)) {
+    return { kind: 'format', name: codePoint >= 0xE0000 ? 'TAG' : '' }
+  }
+  return null
+}
+
+/**
+ * Format a code point as `U+XXXX`
+ */
+export function formatCodePoint(codePoint: number): string {
+  return `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`
+}
+
+/**
+ * Render a character as a visible marker, e.g. `⟨U+200B ZWSP⟩`
+ */
+function renderMarker(codePoint: number, name: string): string {
+  return `⟨${formatCodePoint(codePoint)}${name ? ` ${name}` : ''}⟩`
+}
+
+function scriptOf(codePoint: number): string | undefined {
+  // × and ÷ sit among the Latin letters
+  if (codePoint === 0xD7 || codePoint === 0xF7) {
+    return undefined
+  }
+  return SCRIPTS.find(([, start, end]) => codePoint >= start && codePoint <= end)?.[0]
+}
+
+function isWordCharacter(codePoint: number): boolean {
+  return scriptOf(codePoint) !== undefined
+    || (codePoint >= 0x30 && codePoint <= 0x39)
+    || codePoint === 0x5F
+}
+
+/**
+ * Find invisible characters and words mixing scripts, and render each
+ * invisible character as a marker with its code point. Line feeds, tabs and
+ * CRLF line breaks are kept as they are.
+ */
+export function showInvisibles(text: string): InvisiblesReport {
+  const found = new Map<number, InvisibleCharacter>()
+  const mixedScriptWords: MixedScriptWord[] = []
+  let output = ''
+
+  let wordStart = -1
+  let scripts: string[] = []
+  const endWord = (end: number): void => {
+    if (scripts.length > 1) {
+      mixedScriptWords.push({ word: text.slice(wordStart, end), scripts, offset: wordStart })
+    }
+    wordStart = -1
+    scripts = []
+  }
+
+  let index = 0
+  while (index < text.length) {
+    const codePoint = text.codePointAt(index)!
+    const char = String.fromCodePoint(codePoint)
+
+    if (isWordCharacter(codePoint)) {
+      if (wordStart < 0) {
+        wordStart = index
+      }
+      const script = scriptOf(codePoint)
+      if (script && !scripts.includes(script)) {
+        scripts.push(script)
+      }
+    }
+    else {
+      endWord(index)
+    }
+
+    const invisible = codePoint === 0x0D && text[index + 1] === '\n' ? null : classifyCharacter(codePoint)
+    if (invisible) {
+      const entry = found.get(codePoint)
+      if (entry) {
+        entry.count++
+      }
+      else {
+        found.set(codePoint, { codePoint, ...invisible, count: 1, offset: index })
+      }
+      output += renderMarker(codePoint, invisible.name)
+    }
+    else {
+      output += char
+    }
+
+    index += char.length
+  }
+  endWord(index)
+
+  return {
+    text: output,
+    characters: [...found.values()].sort((a, b) => a.codePoint - b.codePoint),
+    mixedScriptWords,
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Comment placed before values that were expanded from a JSON string
+ */
+export const EXPANDED_COMMENT = '// expanded from string'
+
+/**
+ * JSON value with nested JSON strings replaced by their parsed structure
+ */
+export interface ExpandedJson {
+  value: unknown
+  /** Objects and arrays that were parsed from a string value */
+  expanded: Set<object>
+}
+
+/**
+ * Parse a string as a JSON object or array, or return undefined
+ */
+function parseStructure(text: string): object | undefined {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed)
+    return typeof parsed === 'object' && parsed !== null ? parsed : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Replace every string value that holds a JSON object or array with the
+ * parsed structure, recursively
+ */
+export function expandNestedJson(value: unknown): ExpandedJson {
+  const expanded = new Set<object>()
+
+  const expand = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const parsed = parseStructure(node)
+      if (parsed === undefined) {
+        return node
+      }
+      const result = expand(parsed) as object
+      expanded.add(result)
+      return result
+    }
+
+    if (Array.isArray(node)) {
+      return node.map(expand)
+    }
+
+    if (typeof node === 'object' && node !== null) {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, expand(child)]))
+    }
+
+    return node
+  }
+
+  return { value: expand(value), expanded }
+}
+
+/**
+ * Stringify JSON with 2-space indentation like `JSON.stringify(value, null, 2)`,
+ * putting {@link EXPANDED_COMMENT} before expanded values (JSONC)
+ */
+export function stringifyExpandedJson({ value, expanded }: ExpandedJson): string {
+  const write = (node: unknown, indent: string): string => {
+    if (typeof node !== 'object' || node === null) {
+      return JSON.stringify(node)
+    }
+
+    const entries: [string | null, unknown][] = Array.isArray(node)
+      ? node.map(child => [null, child])
+      : Object.entries(node)
+
+    if (entries.length === 0) {
+      return Array.isArray(node) ? '[]' : '{}'
+    }
+
+    const childIndent = `${indent}  `
+    const lines = entries.map(([key, child], index) => {
+      const comment = typeof child === 'object' && child !== null && expanded.has(child)
+        ? `${childIndent}${EXPANDED_COMMENT}\n`
+        : ''
+      const name = key === null ? '' : `${JSON.stringify(key)}: `
+      const comma = index < entries.length - 1 ? ',' : ''
+      return `${comment}${childIndent}${name}${write(child, childIndent)}${comma}`
+    })
+
+    const [open, close] = Array.isArray(node) ? ['[', ']'] : ['{', '}']
+    return `${open}\n${lines.join('\n')}\n${indent}${close}`
+  }
+
+  const json = write(value, '')
+  return typeof value === 'object' && value !== null && expanded.has(value)
+    ? `${EXPANDED_COMMENT}\n${json}`
+    : json
+}
@@ -0,0 +1,51 @@
+/**
+ * A replacement in a document, as offsets in the document before the change
+ */
+export interface TextChange {
+  rangeOffset: number
+  rangeLength: number
+  text: string
+}
+
+/**
+ * A range of a document followed across edits, e.g. the string literal of a
+ * live preview
+ */
+export interface TrackedRange {
+  start: number
+  end: number
+  /** Whether the tracked text was deleted */
+  lost: boolean
+}
+
+/**
+ * Move a tracked range through the replacements of one document change.
+ * Text typed at either end of the range becomes part of it, and deleting
+ * past both ends, delimiters included, loses it.
+ *
+ * @param range The range before the change
+ * @param changes The replacements of the change, in any order
+ * @returns The range after the change
+ */
+export function trackRange(range: TrackedRange, changes: readonly TextChange[]): TrackedRange {
+  let { start, end, lost } = range
+
+  // Change ranges refer to the document before the edit, so walk them from
+  // the end of the document to keep earlier offsets valid
+  const sorted = [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset)
+  for (const { rangeOffset, rangeLength, text } of sorted) {
+    const rangeEnd = rangeOffset + rangeLength
+    if (rangeOffset <= start && rangeEnd >= end && (rangeOffset < start || rangeEnd > end)) {
+      lost = true
+    }
+
+    // Offsets inside the replaced text move to its edges
+    const mapOffset = (offset: number, edge: number): number => offset < rangeOffset
+      ? offset
+      : offset > rangeEnd ? offset + text.length - rangeLength : edge
+    start = mapOffset(start, rangeOffset)
+    end = mapOffset(end, rangeOffset + text.length)
+  }
+
+  return { start, end, lost }
+}
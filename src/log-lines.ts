@@ -0,0 +1,86 @@
+/**
+ * Field name that selects every string field
+ */
+export const ALL_FIELDS = '*'
+
+/**
+ * A string field of a log record, unescaped
+ */
+export interface LogField {
+  /** Dotted path of the field in the record, e.g. `error.stack` */
+  path: string
+  text: string
+}
+
+/**
+ * A log line parsed as a JSON record
+ */
+export interface LogRecord {
+  /** The record without the fields that span several lines */
+  rest: Record<string, unknown>
+  /** Selected fields that span several lines once unescaped */
+  fields: LogField[]
+}
+
+/**
+ * Parse a log line as a JSON record and unescape the selected string fields.
+ * Fields that span several lines once unescaped are taken out of the record
+ * so that they can be shown as blocks of text.
+ *
+ * @param line The log line
+ * @param options Which fields to unescape
+ * @param options.fields Names or dotted paths of the fields, or
+ * {@link ALL_FIELDS}
+ * @returns The record, or null if the line is not a JSON object
+ */
+export function parseLogLine(line: string, options: { fields: string[] }): LogRecord | null {
+  const trimmed = line.trim()
+  if (!trimmed.startsWith('{')) {
+    return null
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(trimmed)
+  }
+  catch {
+    return null
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null
+  }
+
+  const fields: LogField[] = []
+  const all = options.fields.includes(ALL_FIELDS)
+
+  const extract = (node: Record<string, unknown>, parent: string): Record<string, unknown> => {
+    const rest: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(node)) {
+      const path = parent ? `${parent}.${key}` : key
+
+      if (typeof value === 'string' && (all || options.fields.includes(key) || options.fields.includes(path))) {
+        // The JSON parser already unescaped the value, backslashes left in
+        // it are part of the text
+        if (value.includes('\n')) {
+          fields.push({ path, text: value })
+        }
+        else {
+          rest[key] = value
+        }
+      }
+      else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const child = extract(value as Record<string, unknown>, path)
+        // Drop objects whose fields were all taken out
+        if (Object.keys(child).length > 0 || Object.keys(value).length === 0) {
+          rest[key] = child
+        }
+      }
+      else {
+        rest[key] = value
+      }
+    }
+    return rest
+  }
+
+  return { rest: extract(parsed as Record<string, unknown>, ''), fields }
+}
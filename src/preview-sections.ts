@@ -0,0 +1,33 @@
+/**
+ * The processed text of one selection of a multi-cursor preview, or the
+ * reason it could not be processed
+ */
+export interface PreviewSection {
+  /** Location of the selection, e.g. `12:5` */
+  location: string
+  content?: string
+  language?: string
+  error?: string
+}
+
+/**
+ * Join the sections of a multi-cursor preview, each under a header naming
+ * its location. Headers and errors are comments when every processed
+ * section is JSON, so that the preview stays highlighted.
+ *
+ * @param sections The sections, in document order
+ * @returns The text of the preview, and its language when the processed
+ * sections share one
+ */
+export function joinPreviewSections(sections: PreviewSection[]): { content: string, language?: string } {
+  const languages = new Set(sections.filter(section => section.content !== undefined).map(section => section.language))
+  const json = [...languages].every(language => language === 'json' || language === 'jsonc')
+  const comment = (line: string): string => json ? `// ${line}` : line
+
+  const content = sections.map(({ location, content, error }) => [
+    comment(`──── ${location} ────`),
+    content ?? comment(error!),
+  ].join('\n')).join('\n\n')
+
+  return { content, language: json ? 'jsonc' : languages.size === 1 ? [...languages][0] : undefined }
+}
@@ -0,0 +1,169 @@
+import type { CodeActionProvider, TextDocument } from 'vscode'
+import type { EscapeFix, EscapeProblem, EscapeProblemKind } from '../escape-problems'
+import { useDisposable } from 'reactive-vscode'
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, l10n, languages, Position, Range, workspace, WorkspaceEdit } from 'vscode'
+import { describeIssueKind } from '../commands/unescape-preview'
+import { config } from '../config'
+import { detectDialect } from '../dialects'
+import { findEscapeProblems } from '../escape-problems'
+import { isInComment } from '../services/comments'
+import { extractAllStrings, extractComments, extractStringWithDetails } from '../services/string-extractor'
+
+const UPDATE_DELAY = 300
+const SUPPORTED_SCHEMES = ['file', 'untitled']
+const SOURCE = 'unescaper'
+
+/**
+ * A problem of a literal and its range in the document
+ */
+interface LocatedProblem {
+  problem: EscapeProblem
+  range: Range
+}
+
+function describeProblem(kind: EscapeProblemKind): string {
+  switch (kind) {
+    case 'useless':
+      return l10n.t('Unnecessary escape of a quote')
+    case 'control':
+      return l10n.t('Control character that should be escaped')
+    default:
+      return describeIssueKind(kind)
+  }
+}
+
+function describeFix({ kind, text }: EscapeFix): string {
+  switch (kind) {
+    case 'remove-backslash':
+      return l10n.t('Remove the backslash')
+    case 'escape-backslash':
+      return l10n.t('Escape the backslash')
+    case 'replace':
+      return l10n.t('Replace with {0}', text)
+    case 'remove':
+      return l10n.t('Remove the escape sequence')
+  }
+}
+
+/**
+ * Check if diagnostics should be reported for a document
+ */
+function isEnabledFor(document: TextDocument): boolean {
+  return config['diagnostics.enabled'] && SUPPORTED_SCHEMES.includes(document.uri.scheme)
+}
+
+/**
+ * Find the problems of the string literals of a document, or of the literal
+ * at a position. Quoted text in comments is not checked.
+ */
+function findProblems(document: TextDocument, position?: Position): LocatedProblem[] {
+  const literals = position
+    ? [extractStringWithDetails(document, position)].filter(literal => literal !== null)
+    : extractAllStrings(document)
+  const comments = extractComments(document)
+
+  return literals.flatMap(({ content, start: literalStart, contentStart, quoteStyle }) => {
+    if (isInComment(comments, document.offsetAt(new Position(literalStart.line, literalStart.character)))) {
+      return []
+    }
+
+    const start = document.offsetAt(new Position(contentStart.line, contentStart.character))
+    const dialect = detectDialect(document.languageId, quoteStyle)
+    return findEscapeProblems(content, quoteStyle, dialect).map(problem => ({
+      problem,
+      range: new Range(
+        document.positionAt(start + problem.offset),
+        document.positionAt(start + problem.offset + problem.length),
+      ),
+    }))
+  })
+}
+
+function createDiagnostic({ problem, range }: LocatedProblem): Diagnostic {
+  const diagnostic = new Diagnostic(
+    range,
+    describeProblem(problem.kind),
+    problem.kind === 'useless' || problem.kind === 'unresolved' ? DiagnosticSeverity.Information : DiagnosticSeverity.Warning,
+  )
+  diagnostic.source = SOURCE
+  diagnostic.code = problem.kind
+  return diagnostic
+}
+
+/**
+ * Offer the repairs of each problem reported in the requested range
+ */
+const codeActionProvider: CodeActionProvider = {
+  provideCodeActions(document, _range, context) {
+    const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === SOURCE)
+    if (diagnostics.length === 0) {
+      return []
+    }
+
+    // Problems are found again to get their fixes, which diagnostics lack
+    return diagnostics.flatMap((diagnostic) => {
+      const located = findProblems(document, diagnostic.range.start)
+        .find(({ problem, range }) => problem.kind === diagnostic.code && range.isEqual(diagnostic.range))
+
+      return located?.problem.fixes.map((fix, index) => {
+        const action = new CodeAction(describeFix(fix), CodeActionKind.QuickFix)
+        action.diagnostics = [diagnostic]
+        action.isPreferred = index === 0
+        action.edit = new WorkspaceEdit()
+        action.edit.replace(document.uri, located.range, fix.text)
+        return action
+      }) ?? []
+    })
+  },
+}
+
+/**
+ * Register the diagnostics reporting malformed and suspicious escapes in
+ * string literals, with quick fixes
+ */
+export function useEscapeDiagnostics(): void {
+  const collection = useDisposable(languages.createDiagnosticCollection(SOURCE))
+  useDisposable(languages.registerCodeActionsProvider(
+    SUPPORTED_SCHEMES.map(scheme => ({ scheme })),
+    codeActionProvider,
+    { providedCodeActionKinds: [CodeActionKind.QuickFix] },
+  ))
+
+  const update = (document: TextDocument): void => {
+    if (isEnabledFor(document)) {
+      collection.set(document.uri, findProblems(document).map(createDiagnostic))
+    }
+    else {
+      collection.delete(document.uri)
+    }
+  }
+
+  // Pending updates by document, so that quick edits are checked once
+  const timers = new Map<TextDocument, ReturnType<typeof setTimeout>>()
+  const scheduleUpdate = (document: TextDocument): void => {
+    clearTimeout(timers.get(document))
+    timers.set(document, setTimeout(() => {
+      timers.delete(document)
+      update(document)
+    }, UPDATE_DELAY))
+  }
+
+  useDisposable({ dispose: () => timers.forEach(timer => clearTimeout(timer)) })
+  useDisposable(workspace.onDidOpenTextDocument(update))
+  useDisposable(workspace.onDidChangeTextDocument(({ document }) => scheduleUpdate(document)))
+  useDisposable(
+    workspace.onDidCloseTextDocument((document) => {
+      clearTimeout(timers.get(document))
+      timers.delete(document)
+      collection.delete(document.uri)
+    }),
+  )
+  useDisposable(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('unescaper.diagnostics') || event.affectsConfiguration('unescaper.grammars')) {
+        workspace.textDocuments.forEach(update)
+      }
+    }),
+  )
+  workspace.textDocuments.forEach(update)
+}
@@ -0,0 +1,155 @@
+import type { CodeLensProvider, DecorationOptions, TextDocument, TextEditor } from 'vscode'
+import type { ExtractResult } from '../services/string-extractor'
+import { useCommand, useDisposable } from 'reactive-vscode'
+import { CodeLens, ConfigurationTarget, EventEmitter, l10n, languages, Range, ThemeColor, window, workspace } from 'vscode'
+import { config } from '../config'
+import { detectDialect } from '../dialects'
+import { extractAllStrings } from '../services/string-extractor'
+import { unescapeForQuoteStyle } from '../unescape'
+
+const UPDATE_DELAY = 300
+const SUPPORTED_SCHEMES = ['file', 'untitled']
+
+/**
+ * A string literal whose unescaped value differs from its source
+ */
+interface EscapedLiteral {
+  details: ExtractResult
+  text: string
+}
+
+const decorationType = window.createTextEditorDecorationType({
+  after: {
+    color: new ThemeColor('editorCodeLens.foreground'),
+    fontStyle: 'italic',
+    margin: '0 0 0 1em',
+  },
+})
+
+const onDidChangeCodeLensesEmitter = new EventEmitter<void>()
+
+/**
+ * Find the string literals of a document that change when unescaped
+ */
+function findEscapedLiterals(document: TextDocument): EscapedLiteral[] {
+  return extractAllStrings(document).flatMap((details) => {
+    if (details.quoteStyle.prefixDisablesEscape) {
+      return []
+    }
+    const dialect = detectDialect(document.languageId, details.quoteStyle)
+    const text = unescapeForQuoteStyle(details.content, details.quoteStyle, dialect)
+    return text === details.content ? [] : [{ details, text }]
+  })
+}
+
+/**
+ * Shorten unescaped text to a single line, showing C0 control characters as
+ * visible symbols
+ */
+function toShortForm(text: string, maxLength: number): string {
+  const singleLine = Array.from(text, (char) => {
+    if (char.charCodeAt(0) >= 0x20) {
+      return char
+    }
+    if (char === '\n') {
+      return '⏎'
+    }
+    if (char === '\t') {
+      return '⇥'
+    }
+    return String.fromCharCode(0x2400 + char.charCodeAt(0))
+  }).join('')
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine
+}
+
+/**
+ * Check if inline values should be shown for a document
+ */
+function isEnabledFor(document: TextDocument): boolean {
+  return config['inline.enabled'] && SUPPORTED_SCHEMES.includes(document.uri.scheme)
+}
+
+/**
+ * Show the short unescaped form after each escaped literal of an editor
+ */
+function updateDecorations(editor: TextEditor): void {
+  if (!isEnabledFor(editor.document)) {
+    editor.setDecorations(decorationType, [])
+    return
+  }
+
+  const decorations: DecorationOptions[] = findEscapedLiterals(editor.document).map(({ details, text }) => {
+    const end = new Range(details.end.line, details.end.character, details.end.line, details.end.character)
+    return {
+      range: end,
+      renderOptions: { after: { contentText: toShortForm(text, config['inline.maxLength']) } },
+    }
+  })
+  editor.setDecorations(decorationType, decorations)
+}
+
+/**
+ * Offer a full preview above literals that unescape to several lines
+ */
+const codeLensProvider: CodeLensProvider = {
+  onDidChangeCodeLenses: onDidChangeCodeLensesEmitter.event,
+
+  provideCodeLenses(document) {
+    if (!isEnabledFor(document)) {
+      return []
+    }
+
+    return findEscapedLiterals(document).flatMap(({ details, text }) => {
+      const lineCount = text.split('\n').length
+      if (lineCount <= details.content.split('\n').length) {
+        return []
+      }
+
+      const { line, character } = details.start
+      return [new CodeLens(new Range(line, character, line, character), {
+        title: l10n.t('Unescape Preview ({0} lines)', lineCount),
+        command: 'unescaper.previewAt',
+        arguments: [document.uri.toString(), line, character],
+      })]
+    })
+  },
+}
+
+/**
+ * Register the inline decorations and code lenses revealing decoded strings
+ */
+export function useInlineUnescapedValues(): void {
+  useDisposable(decorationType)
+  useDisposable(languages.registerCodeLensProvider(SUPPORTED_SCHEMES.map(scheme => ({ scheme })), codeLensProvider))
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const scheduleUpdate = (): void => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      window.visibleTextEditors.forEach(updateDecorations)
+      onDidChangeCodeLensesEmitter.fire()
+    }, UPDATE_DELAY)
+  }
+
+  useDisposable({ dispose: () => clearTimeout(timer) })
+  useDisposable(window.onDidChangeVisibleTextEditors(scheduleUpdate))
+  useDisposable(
+    workspace.onDidChangeTextDocument(({ document }) => {
+      if (window.visibleTextEditors.some(editor => editor.document === document)) {
+        scheduleUpdate()
+      }
+    }),
+  )
+  useDisposable(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('unescaper.inline')) {
+        scheduleUpdate()
+      }
+    }),
+  )
+  scheduleUpdate()
+
+  useCommand('unescaper.toggleInline', async () => {
+    await config.$update('inline.enabled', !config['inline.enabled'], ConfigurationTarget.Global)
+  })
+}
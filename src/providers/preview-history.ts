@@ -0,0 +1,78 @@
+import type { TreeViewNode } from 'reactive-vscode'
+import type { PreviewEntry } from '../services/preview-store'
+import { extensionContext, ref, useCommand, useDisposable, useTreeView, watch } from 'reactive-vscode'
+import { l10n, ThemeIcon, TreeItem, TreeItemCollapsibleState, Uri } from 'vscode'
+import { reopenPreview } from '../commands/unescape-preview'
+import { config } from '../config'
+import {
+  clearPreviewHistory,
+  findPreview,
+  getPreviewHistory,
+  loadPreviewHistory,
+  onDidChangePreviewHistory,
+  removePreview,
+  setPreviewPinned,
+  trimPreviewHistory,
+} from '../services/preview-store'
+
+const TOOLTIP_LENGTH = 500
+
+/**
+ * A preview in the history view
+ */
+interface HistoryNode extends TreeViewNode {
+  path: string
+}
+
+/**
+ * Name the source of a preview as file:line
+ */
+function describeSource(entry: PreviewEntry): string {
+  if (!entry.source) {
+    return l10n.t('Unknown source')
+  }
+  const name = Uri.parse(entry.source.uri).path.split('/').pop()
+  return `${name}:${entry.source.line + 1}`
+}
+
+function createNode(entry: PreviewEntry): HistoryNode {
+  const item = new TreeItem(describeSource(entry), TreeItemCollapsibleState.None)
+  item.description = `${entry.decoder} · ${new Date(entry.timestamp).toLocaleString()}`
+  item.tooltip = entry.content.length > TOOLTIP_LENGTH ? `${entry.content.slice(0, TOOLTIP_LENGTH)}…` : entry.content
+  item.iconPath = new ThemeIcon(entry.pinned ? 'pinned' : 'history')
+  item.contextValue = entry.pinned ? 'pinnedPreview' : 'preview'
+  item.command = {
+    command: 'unescaper.history.open',
+    title: l10n.t('Open Preview'),
+    arguments: [{ path: entry.path }],
+  }
+  return { path: entry.path, treeItem: item }
+}
+
+/**
+ * Register the view listing recent previews, which can be opened again and
+ * pinned to keep them in the history
+ */
+export function usePreviewHistory(): void {
+  loadPreviewHistory(extensionContext.value!.workspaceState)
+
+  const nodes = ref<HistoryNode[]>(getPreviewHistory().map(createNode))
+  useDisposable(onDidChangePreviewHistory(() => {
+    nodes.value = getPreviewHistory().map(createNode)
+  }))
+
+  useTreeView('unescaper.history', nodes)
+
+  watch(() => config['history.maxEntries'], trimPreviewHistory)
+
+  useCommand('unescaper.history.open', async ({ path }: { path: string }) => {
+    const entry = findPreview(path)
+    if (entry) {
+      await reopenPreview(entry)
+    }
+  })
+  useCommand('unescaper.history.pin', ({ path }: HistoryNode) => setPreviewPinned(path, true))
+  useCommand('unescaper.history.unpin', ({ path }: HistoryNode) => setPreviewPinned(path, false))
+  useCommand('unescaper.history.remove', ({ path }: HistoryNode) => removePreview(path))
+  useCommand('unescaper.history.clear', () => clearPreviewHistory())
+}
@@ -0,0 +1,70 @@
+import type { CodeActionProvider } from 'vscode'
+import type { LiteralFormId } from '../quote-conversion'
+import { useDisposable } from 'reactive-vscode'
+import { CodeAction, CodeActionKind, l10n, languages, Range, WorkspaceEdit } from 'vscode'
+import { CONVERTIBLE_LANGUAGES, convertLiteral } from '../quote-conversion'
+import { extractStringWithDetails } from '../services/string-extractor'
+
+const SUPPORTED_SCHEMES = ['file', 'untitled']
+
+function describeForm(form: LiteralFormId): string {
+  switch (form) {
+    case 'double':
+      return l10n.t('Convert to double quotes')
+    case 'single':
+      return l10n.t('Convert to single quotes')
+    case 'template':
+      return l10n.t('Convert to template literal')
+    case 'triple-double':
+      return l10n.t('Convert to triple double quotes')
+    case 'triple-single':
+      return l10n.t('Convert to triple single quotes')
+    case 'raw-double':
+      return l10n.t('Convert to raw string (double quotes)')
+    case 'raw-single':
+      return l10n.t('Convert to raw string (single quotes)')
+    case 'go-raw':
+    case 'rust-raw':
+      return l10n.t('Convert to raw string')
+    case 'verbatim':
+      return l10n.t('Convert to verbatim string')
+  }
+}
+
+/**
+ * Offer to rewrite the string literal at the requested range into the other
+ * forms that keep its value
+ */
+const codeActionProvider: CodeActionProvider = {
+  provideCodeActions(document, range) {
+    const details = extractStringWithDetails(document, range.start)
+    if (!details) {
+      return []
+    }
+
+    const { start, end } = details
+    const literal = new Range(start.line, start.character, end.line, end.character)
+    if (!literal.contains(range)) {
+      return []
+    }
+
+    return convertLiteral(details.content, details.quoteStyle, document.languageId).map(({ form, text }) => {
+      const action = new CodeAction(describeForm(form), CodeActionKind.RefactorRewrite)
+      action.edit = new WorkspaceEdit()
+      action.edit.replace(document.uri, literal, text)
+      return action
+    })
+  },
+}
+
+/**
+ * Register the refactorings converting a string literal between quoting
+ * styles, such as escaped strings to template literals or raw strings
+ */
+export function useQuoteConversionActions(): void {
+  useDisposable(languages.registerCodeActionsProvider(
+    SUPPORTED_SCHEMES.flatMap(scheme => CONVERTIBLE_LANGUAGES.map(language => ({ scheme, language }))),
+    codeActionProvider,
+    { providedCodeActionKinds: [CodeActionKind.RefactorRewrite] },
+  ))
+}
@@ -0,0 +1,112 @@
+import type { HoverProvider, TextDocument } from 'vscode'
+import type { ExtractResult } from '../services/string-extractor'
+import { useCommand, useDisposable } from 'reactive-vscode'
+import { env, Hover, l10n, languages, MarkdownString, Position, Range, Uri, window, workspace } from 'vscode'
+import { detectDialect } from '../dialects'
+import { extractStringWithDetails } from '../services/string-extractor'
+import { unescapeForQuoteStyle } from '../unescape'
+
+/**
+ * Unescape the string literal at a position, or return null when there is
+ * none or it has nothing to unescape (e.g. raw strings)
+ */
+function unescapeAt(document: TextDocument, position: Position): { details: ExtractResult, text: string } | null {
+  const details = extractStringWithDetails(document, position)
+  if (!details || details.quoteStyle.prefixDisablesEscape) {
+    return null
+  }
+
+  const dialect = detectDialect(document.languageId, details.quoteStyle)
+  return { details, text: unescapeForQuoteStyle(details.content, details.quoteStyle, dialect) }
+}
+
+/**
+ * Pretty-print text that parses as a JSON object or array
+ */
+function prettyPrintJson(text: string): string | null {
+  try {
+    const parsed: unknown = JSON.parse(text)
+    return typeof parsed === 'object' && parsed !== null ? JSON.stringify(parsed, null, 2) : null
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Wrap text in a Markdown code block, using a fence longer than any
+ * backtick run in the text
+ */
+function codeBlock(text: string, language: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${fence}${language}\n${text}\n${fence}\n`
+}
+
+/**
+ * Build a `command:` link with JSON encoded arguments
+ */
+function commandLink(title: string, command: string, args: unknown[]): string {
+  return `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`
+}
+
+const hoverProvider: HoverProvider = {
+  provideHover(document, position) {
+    const settings = workspace.getConfiguration('unescaper', document)
+    if (!settings.get<boolean>('hover.enabled', true)) {
+      return null
+    }
+
+    const result = unescapeAt(document, position)
+    if (!result) {
+      return null
+    }
+
+    const { details, text } = result
+    const json = prettyPrintJson(text)
+
+    // Nothing to show if the literal reads the same unescaped
+    if (json === null && text === details.content) {
+      return null
+    }
+
+    const maxLength = settings.get<number>('hover.maxLength', 1000)
+    let content = json ?? text
+    if (content.length > maxLength) {
+      content = `${content.slice(0, maxLength)}\n… ${l10n.t('({0} more characters)', content.length - maxLength)}`
+    }
+
+    const args = [document.uri.toString(), position.line, position.character]
+    const markdown = new MarkdownString()
+    markdown.isTrusted = { enabledCommands: ['unescaper.previewAt', 'unescaper.copyUnescapedAt'] }
+    markdown.appendMarkdown(codeBlock(content, json === null ? 'text' : 'json'))
+    markdown.appendMarkdown(`${commandLink(l10n.t('Open in preview'), 'unescaper.previewAt', args)} | `)
+    markdown.appendMarkdown(commandLink(l10n.t('Copy unescaped'), 'unescaper.copyUnescapedAt', args))
+
+    const range = new Range(details.start.line, details.start.character, details.end.line, details.end.character)
+    return new Hover(markdown, range)
+  },
+}
+
+/**
+ * Register the hover showing the unescaped value of the string under the mouse
+ */
+export function useUnescapeHover(): void {
+  useDisposable(
+    languages.registerHoverProvider([{ scheme: 'file' }, { scheme: 'untitled' }], hoverProvider),
+  )
+
+  // Copy the unescaped string literal at a given location, used by command links
+  useCommand('unescaper.copyUnescapedAt', async (uri: string, line: number, character: number) => {
+    const document = await workspace.openTextDocument(Uri.parse(uri))
+    const result = unescapeAt(document, new Position(line, character))
+
+    if (!result) {
+      window.showWarningMessage(l10n.t('No string literal found at cursor position'))
+      return
+    }
+
+    await env.clipboard.writeText(result.text)
+    window.setStatusBarMessage(l10n.t('Unescaped text copied to clipboard'), 3000)
+  })
+}
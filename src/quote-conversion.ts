@@ -0,0 +1,227 @@
+import type { DialectId } from './dialects'
+import type { QuoteStyle } from './services/string-extractor'
+import { detectDialect } from './dialects'
+import { escapeForQuoteStyle } from './escape'
+import { extractLiteralsFromText } from './services/string-extractor'
+import { unescapeDetailed, unescapeForQuoteStyle } from './unescape'
+
+/**
+ * Forms of string literal a literal can be rewritten into
+ */
+export type LiteralFormId
+  = | 'double'
+    | 'single'
+    | 'template'
+    | 'triple-double'
+    | 'triple-single'
+    | 'raw-double'
+    | 'raw-single'
+    | 'go-raw'
+    | 'rust-raw'
+    | 'verbatim'
+
+/**
+ * A string literal rewritten into another form with the same value
+ */
+export interface LiteralConversion {
+  form: LiteralFormId
+  /** The rewritten literal, delimiters and prefix included */
+  text: string
+}
+
+const FORMS: Record<LiteralFormId, QuoteStyle> = {
+  'double': { open: '"', close: '"', supportsEscape: true, multiLine: false },
+  'single': { open: '\'', close: '\'', supportsEscape: true, multiLine: false },
+  'template': { open: '`', close: '`', supportsEscape: true, multiLine: true },
+  'triple-double': { open: '"""', close: '"""', supportsEscape: true, multiLine: true },
+  'triple-single': { open: '\'\'\'', close: '\'\'\'', supportsEscape: true, multiLine: true },
+  'raw-double': { open: '"', close: '"', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
+  'raw-single': { open: '\'', close: '\'', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
+  'go-raw': { open: '`', close: '`', supportsEscape: false, multiLine: true, prefixDisablesEscape: true },
+  'rust-raw': { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: 'r', prefixDisablesEscape: true },
+  'verbatim': { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: '@', prefixDisablesEscape: true },
+}
+
+const JAVASCRIPT_FORMS: LiteralFormId[] = ['double', 'single', 'template']
+
+/**
+ * Forms of string literal of each language that are interchangeable, i.e.
+ * that make a value of the same type
+ */
+const LANGUAGE_FORMS: Record<string, LiteralFormId[]> = {
+  javascript: JAVASCRIPT_FORMS,
+  javascriptreact: JAVASCRIPT_FORMS,
+  typescript: JAVASCRIPT_FORMS,
+  typescriptreact: JAVASCRIPT_FORMS,
+  vue: JAVASCRIPT_FORMS,
+  svelte: JAVASCRIPT_FORMS,
+  json5: ['double', 'single'],
+  python: ['double', 'single', 'triple-double', 'triple-single', 'raw-double', 'raw-single'],
+  go: ['double', 'go-raw'],
+  rust: ['double', 'rust-raw'],
+  csharp: ['double', 'verbatim'],
+}
+
+/**
+ * Languages whose string literals can be converted between forms
+ */
+export const CONVERTIBLE_LANGUAGES = Object.keys(LANGUAGE_FORMS)
+
+/**
+ * Quotes whose escape is rewritten for the new delimiters, along with `$`
+ * which only needs escaping in templates
+ */
+const REWRITTEN_ESCAPES = ['"', '\'', '`', '$']
+
+function isRaw(quoteStyle: QuoteStyle): boolean {
+  return !quoteStyle.supportsEscape || !!quoteStyle.prefixDisablesEscape
+}
+
+/**
+ * Find the form of a literal among the forms of its language. The `#` run of
+ * Rust raw strings is ignored.
+ */
+function findForm(quoteStyle: QuoteStyle, forms: LiteralFormId[]): LiteralFormId | undefined {
+  const prefix = (quoteStyle.prefix ?? '').replace(/#+$/, '')
+  return forms.find((id) => {
+    const form = FORMS[id]
+    return form.open === quoteStyle.open
+      && form.close[0] === quoteStyle.close[0]
+      && (form.prefix ?? '') === prefix
+      && isRaw(form) === isRaw(quoteStyle)
+  })
+}
+
+/**
+ * Delimit a Rust raw string with one more `#` than the longest run following
+ * a quote in the value
+ */
+function fitRustRaw(value: string): QuoteStyle {
+  const runs = value.match(/"#*/g) ?? []
+  const hashes = '#'.repeat(Math.max(0, ...runs.map(run => run.length)))
+  return { ...FORMS['rust-raw'], close: `"${hashes}`, prefix: `r${hashes}` }
+}
+
+/**
+ * Read the line breaks written in a multi-line literal as `\n`, as compilers
+ * do, except in C# verbatim strings which keep them as they are
+ */
+function normalizeLineBreaks(content: string, quoteStyle: QuoteStyle): string {
+  return quoteStyle.multiLine && !quoteStyle.prefix?.includes('@') ? content.replace(/\r\n?/g, '\n') : content
+}
+
+/**
+ * Get the value of a literal body, or null if it has none known statically:
+ * malformed escapes, or template placeholders
+ */
+function decodeLiteral(content: string, quoteStyle: QuoteStyle, dialect: DialectId): string | null {
+  if (!isRaw(quoteStyle)) {
+    const { issues, segments } = unescapeDetailed(content, dialect, { mapping: true })
+    const hasPlaceholder = quoteStyle.open === '`' && segments!.some(({ kind, inputStart, inputEnd }) =>
+      kind === 'text' && content.slice(inputStart, inputEnd).includes('${'))
+    if (issues.length > 0 || hasPlaceholder) {
+      return null
+    }
+  }
+  return unescapeForQuoteStyle(content, quoteStyle, dialect)
+}
+
+/**
+ * Rewrite an escaped literal body for other delimiters, keeping its escape
+ * sequences as written except the escapes of quotes, and `\n` which becomes
+ * a line break in multi-line forms
+ */
+function reescape(content: string, dialect: DialectId, target: QuoteStyle): string {
+  const { segments } = unescapeDetailed(content, dialect, { mapping: true })
+  return segments!.map(({ kind, inputStart, inputEnd }) => {
+    const text = content.slice(inputStart, inputEnd)
+    if (kind === 'text') {
+      return escapeForQuoteStyle(text, target)!
+    }
+    if (text === '\\n' && target.multiLine) {
+      return '\n'
+    }
+    return text.length === 2 && REWRITTEN_ESCAPES.includes(text[1])
+      ? escapeForQuoteStyle(text[1], target)!
+      : text
+  }).join('')
+}
+
+/**
+ * Parse a literal written by a conversion with the grammars of the language,
+ * and get its value, or null if it is not read back as a single literal
+ */
+function readBack(text: string, languageId: string): string | null {
+  const [literal] = extractLiteralsFromText(text, languageId)
+  if (!literal || literal.start !== 0 || literal.end !== text.length) {
+    return null
+  }
+
+  const { contentStart, contentEnd, quoteStyle } = literal
+  const content = normalizeLineBreaks(text.slice(contentStart, contentEnd), quoteStyle)
+  return decodeLiteral(content, quoteStyle, detectDialect(languageId, quoteStyle))
+}
+
+/**
+ * Write the value of a literal as another form, or return null if that form
+ * cannot hold the value exactly
+ */
+function convertTo(
+  form: LiteralFormId,
+  content: string,
+  value: string,
+  source: QuoteStyle,
+  languageId: string,
+): string | null {
+  const target = form === 'rust-raw' ? fitRustRaw(value) : FORMS[form]
+  if (isRaw(target)) {
+    // Compilers drop or normalize carriage returns written in raw literals,
+    // and Python and Go reject NUL characters anywhere in the source
+    if (/[\0\r]/.test(value)) {
+      return null
+    }
+  }
+  // Placeholders would have to be escaped, defeating the point of a template
+  else if (target.open === '`' && value.includes('${')) {
+    return null
+  }
+
+  const body = isRaw(source) || isRaw(target)
+    ? escapeForQuoteStyle(value, target, detectDialect(languageId, target))
+    : reescape(content, detectDialect(languageId, source), target)
+  if (body === null) {
+    return null
+  }
+
+  const text = `${target.prefix ?? ''}${target.open}${body}${target.close}`
+  return readBack(text, languageId) === value ? text : null
+}
+
+/**
+ * Rewrite a string literal into the other forms of its language that keep
+ * its value exactly, e.g. `"a\nb"` into a template literal or a Go string
+ * into a raw string
+ *
+ * @param content The literal body, between the delimiters
+ * @param quoteStyle The quote style of the literal
+ * @param languageId The language of the document
+ * @returns The lossless conversions, none if the literal has no static value
+ */
+export function convertLiteral(content: string, quoteStyle: QuoteStyle, languageId: string): LiteralConversion[] {
+  const forms = LANGUAGE_FORMS[languageId] ?? []
+  const source = findForm(quoteStyle, forms)
+  if (!source) {
+    return []
+  }
+
+  const normalized = normalizeLineBreaks(content, quoteStyle)
+  const value = decodeLiteral(normalized, quoteStyle, detectDialect(languageId, quoteStyle))
+  if (value === null) {
+    return []
+  }
+
+  return forms.filter(form => form !== source).flatMap((form) => {
+    const text = convertTo(form, normalized, value, quoteStyle, languageId)
+    return text === null ? [] : [{ form, text }]
+  })
+}
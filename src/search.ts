@@ -0,0 +1,130 @@
+import { detectDialect } from './dialects'
+import { extractLiteralsFromText } from './services/string-extractor'
+import { unescapeForQuoteStyle } from './unescape'
+
+const SNIPPET_CONTEXT = 30
+
+/**
+ * Language identifiers of file extensions, for files that are not open.
+ * Other files are scanned with the default literal grammars.
+ */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  cjs: 'javascript',
+  mjs: 'javascript',
+  jsx: 'javascriptreact',
+  ts: 'typescript',
+  cts: 'typescript',
+  mts: 'typescript',
+  tsx: 'typescriptreact',
+  vue: 'vue',
+  svelte: 'svelte',
+  json: 'json',
+  jsonc: 'jsonc',
+  jsonl: 'jsonl',
+  ndjson: 'jsonl',
+  json5: 'json5',
+  py: 'python',
+  java: 'java',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  m: 'objective-c',
+  mm: 'objective-cpp',
+  cs: 'csharp',
+  go: 'go',
+  rs: 'rust',
+  swift: 'swift',
+  lua: 'lua',
+  sh: 'shellscript',
+  bash: 'shellscript',
+  zsh: 'shellscript',
+  rb: 'ruby',
+  php: 'php',
+}
+
+/**
+ * A string literal whose unescaped content matches a search
+ */
+export interface DecodedMatch {
+  /** Offset of the literal content in the text */
+  contentStart: number
+  /** Offset of the end of the literal content in the text */
+  contentEnd: number
+  /** The unescaped content */
+  decoded: string
+  /** Offset of the match in the unescaped content */
+  matchStart: number
+  /** Offset of the end of the match in the unescaped content */
+  matchEnd: number
+}
+
+/**
+ * Get the language identifier of a file from its extension
+ */
+export function languageIdForPath(path: string): string | undefined {
+  const extension = /\.([^./\\]+)$/.exec(path)?.[1]
+  return extension ? EXTENSION_LANGUAGES[extension.toLowerCase()] : undefined
+}
+
+/**
+ * Parse a search query: `/pattern/flags` is a regular expression, anything
+ * else is plain text matched ignoring case, where whitespace matches any run
+ * of whitespace, line breaks included
+ *
+ * @returns The pattern, or null if the regular expression is invalid
+ */
+export function parseQuery(query: string): RegExp | null {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(query)
+  if (!regex) {
+    return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'), 'i')
+  }
+
+  try {
+    // A global or sticky pattern would keep its position between literals
+    return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''))
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Find the string literals of a text whose unescaped content matches a
+ * pattern, in text order
+ *
+ * @param text The text to scan
+ * @param languageId Language of the text, which picks the literal grammars
+ * and the dialect
+ * @param pattern The pattern to match, without the `g` and `y` flags
+ */
+export function searchDecodedText(text: string, languageId: string | undefined, pattern: RegExp): DecodedMatch[] {
+  const matches: DecodedMatch[] = []
+  for (const { contentStart, contentEnd, quoteStyle } of extractLiteralsFromText(text, languageId)) {
+    const decoded = unescapeForQuoteStyle(
+      text.slice(contentStart, contentEnd),
+      quoteStyle,
+      detectDialect(languageId ?? '', quoteStyle),
+    )
+    const match = pattern.exec(decoded)
+    if (match) {
+      matches.push({ contentStart, contentEnd, decoded, matchStart: match.index, matchEnd: match.index + match[0].length })
+    }
+  }
+  return matches
+}
+
+/**
+ * Show a match on one line with some context, line breaks as `⏎`
+ */
+export function formatSnippet({ decoded, matchStart, matchEnd }: DecodedMatch): string {
+  const start = Math.max(0, matchStart - SNIPPET_CONTEXT)
+  const end = Math.min(decoded.length, matchEnd + SNIPPET_CONTEXT)
+  const snippet = decoded.slice(start, end).replace(/\r?\n/g, '⏎').replace(/\t/g, '⇥')
+  return `${start > 0 ? '…' : ''}${snippet}${end < decoded.length ? '…' : ''}`
+}
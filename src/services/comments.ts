@@ -0,0 +1,159 @@
+import type { LiteralSpan } from './literal-grammars'
+
+/**
+ * A comment found in a text, as offsets, delimiters included
+ */
+export interface CommentSpan {
+  start: number
+  end: number
+}
+
+/**
+ * A comment delimiter of a language
+ */
+interface CommentMarker {
+  open: string
+  /** Closing delimiter of block comments; line comments end at the line break */
+  close?: string
+  /** Whether the marker only opens a comment at the start of a word, like `#` in shell */
+  wordStart?: boolean
+}
+
+const C_COMMENTS: CommentMarker[] = [{ open: '//' }, { open: '/*', close: '*/' }]
+const HASH_COMMENTS: CommentMarker[] = [{ open: '#' }]
+
+/**
+ * Comment delimiters of VS Code language identifiers. Languages without an
+ * entry are not known to have comments.
+ */
+const LANGUAGE_COMMENTS: Record<string, CommentMarker[]> = {
+  'javascript': C_COMMENTS,
+  'javascriptreact': C_COMMENTS,
+  'typescript': C_COMMENTS,
+  'typescriptreact': C_COMMENTS,
+  'vue': C_COMMENTS,
+  'svelte': C_COMMENTS,
+  'jsonc': C_COMMENTS,
+  'json5': C_COMMENTS,
+  'java': C_COMMENTS,
+  'kotlin': C_COMMENTS,
+  'c': C_COMMENTS,
+  'cpp': C_COMMENTS,
+  'objective-c': C_COMMENTS,
+  'objective-cpp': C_COMMENTS,
+  'csharp': C_COMMENTS,
+  'go': C_COMMENTS,
+  'rust': C_COMMENTS,
+  'swift': C_COMMENTS,
+  'dart': C_COMMENTS,
+  'scala': C_COMMENTS,
+  'php': [...C_COMMENTS, ...HASH_COMMENTS],
+  'python': HASH_COMMENTS,
+  'ruby': HASH_COMMENTS,
+  'perl': HASH_COMMENTS,
+  'r': HASH_COMMENTS,
+  'toml': HASH_COMMENTS,
+  'yaml': [{ open: '#', wordStart: true }],
+  'shellscript': [{ open: '#', wordStart: true }],
+  'lua': [{ open: '--[[', close: ']]' }, { open: '--' }],
+  'sql': [{ open: '--' }, { open: '/*', close: '*/' }],
+}
+
+/**
+ * Check if an offset starts a word, i.e. follows whitespace, a shell
+ * operator or the start of the text
+ */
+function isWordStart(text: string, offset: number): boolean {
+  return offset === 0 || /[\s;|&()]/.test(text[offset - 1])
+}
+
+/**
+ * Find the end of a comment: after its closing delimiter, or before the
+ * line break of a line comment, or the end of an unclosed comment
+ */
+function findCommentEnd(text: string, start: number, { open, close }: CommentMarker): number {
+  if (close) {
+    const closeStart = text.indexOf(close, start + open.length)
+    return closeStart === -1 ? text.length : closeStart + close.length
+  }
+
+  const lineBreak = text.indexOf('\n', start)
+  if (lineBreak === -1) {
+    return text.length
+  }
+  return text[lineBreak - 1] === '\r' ? lineBreak - 1 : lineBreak
+}
+
+/**
+ * Find the comments of a text, skipping comment delimiters inside string
+ * literals. Literals that start inside a comment, e.g. the quotes of
+ * `// use "\q"`, do not hide delimiters.
+ *
+ * @param text The text to scan
+ * @param languageId The language of the text
+ * @param literals The string literals of the text, in order
+ * @returns The comments in order, none for languages without known comments
+ */
+export function findComments(text: string, languageId: string, literals: readonly LiteralSpan[]): CommentSpan[] {
+  const markers = LANGUAGE_COMMENTS[languageId]
+  if (!markers) {
+    return []
+  }
+
+  // Longer delimiters first, so that `--[[` is not read as `--`
+  const opens = markers.map(({ open }) => open).sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(opens.map(open => open.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&')).join('|'), 'g')
+  const comments: CommentSpan[] = []
+  let next = 0
+
+  let match = pattern.exec(text)
+  while (match) {
+    const start = match.index
+    while (next < literals.length && literals[next].end <= start) {
+      next++
+    }
+
+    const marker = markers.find(({ open }) => open === match![0])!
+    if (next < literals.length && literals[next].start <= start) {
+      // The delimiter is part of a string literal
+      pattern.lastIndex = literals[next].end
+    }
+    else if (marker.wordStart && !isWordStart(text, start)) {
+      pattern.lastIndex = start + 1
+    }
+    else {
+      const end = findCommentEnd(text, start, marker)
+      comments.push({ start, end })
+      pattern.lastIndex = end
+      while (next < literals.length && literals[next].start < end) {
+        next++
+      }
+    }
+    match = pattern.exec(text)
+  }
+
+  return comments
+}
+
+/**
+ * Check if an offset is inside one of the comments found by
+ * {@link findComments}, by binary search
+ */
+export function isInComment(comments: readonly CommentSpan[], offset: number): boolean {
+  let low = 0
+  let high = comments.length - 1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const comment = comments[middle]
+    if (offset < comment.start) {
+      high = middle - 1
+    }
+    else if (offset >= comment.end) {
+      low = middle + 1
+    }
+    else {
+      return true
+    }
+  }
+  return false
+}
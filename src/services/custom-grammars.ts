@@ -0,0 +1,44 @@
+import type { CustomQuoteStyle } from './literal-grammars'
+import { useDisposable } from 'reactive-vscode'
+import { workspace } from 'vscode'
+import { setCustomGrammars } from './literal-grammars'
+
+/**
+ * Check that a setting entry describes a string literal form, ignoring
+ * malformed entries instead of failing the whole setting
+ */
+function isCustomQuoteStyle(value: unknown): value is CustomQuoteStyle {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const { open, close } = value as Record<string, unknown>
+  return typeof open === 'string' && open !== '' && typeof close === 'string' && close !== ''
+}
+
+/**
+ * Read the `unescaper.grammars` setting into the literal grammar registry.
+ * Read directly so that it is current inside the change event.
+ */
+function loadCustomGrammars(): void {
+  const definitions = workspace.getConfiguration('unescaper').get<Record<string, unknown>>('grammars', {})
+  setCustomGrammars(Object.fromEntries(
+    Object.entries(definitions).map(([languageId, styles]) => [
+      languageId,
+      Array.isArray(styles) ? styles.filter(isCustomQuoteStyle) : [],
+    ]),
+  ))
+}
+
+/**
+ * Keep the literal grammars defined in settings up to date
+ */
+export function useCustomGrammars(): void {
+  loadCustomGrammars()
+  useDisposable(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('unescaper.grammars')) {
+        loadCustomGrammars()
+      }
+    }),
+  )
+}
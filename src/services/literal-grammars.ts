@@ -0,0 +1,670 @@
+import type { QuoteStyle } from './string-extractor'
+
+/**
+ * A string literal found in a text, as offsets
+ */
+export interface LiteralSpan {
+  start: number
+  end: number
+  contentStart: number
+  contentEnd: number
+  quoteStyle: QuoteStyle
+}
+
+/**
+ * State shared by the grammars during one scan of a text
+ */
+export interface ScanContext {
+  /**
+   * Offsets from which a closing delimiter is known to be missing, keyed by
+   * delimiter and escaping; avoids rescanning to the end of the text
+   */
+  unclosed: Map<string, number>
+}
+
+/**
+ * One form of string literal of a language
+ */
+export interface LiteralGrammar {
+  /** Characters a literal of this form can start with */
+  firstChars: string
+  /** Match a literal starting exactly at the offset, or return null */
+  match: (text: string, offset: number, context: ScanContext) => LiteralSpan | null
+}
+
+/**
+ * String literal form defined in the `unescaper.grammars` setting
+ */
+export interface CustomQuoteStyle {
+  open: string
+  close: string
+  prefix?: string
+  supportsEscape?: boolean
+  multiLine?: boolean
+}
+
+/**
+ * Check if a position in text is escaped (preceded by odd number of backslashes)
+ */
+function isEscaped(text: string, position: number): boolean {
+  let backslashCount = 0
+  let i = position - 1
+  while (i >= 0 && text[i] === '\\') {
+    backslashCount++
+    i--
+  }
+  return backslashCount % 2 === 1
+}
+
+/**
+ * Check if the character before an offset continues an identifier, in which
+ * case a letter prefix at the offset is not a prefix
+ */
+function followsWord(text: string, offset: number): boolean {
+  return offset > 0 && /\w/.test(text[offset - 1])
+}
+
+/**
+ * Find the closing delimiter of a literal body
+ *
+ * @param text The text to scan
+ * @param from Offset of the first content character
+ * @param close Closing delimiter
+ * @param options How the body is delimited
+ * @param options.escapes Whether a backslash escapes the closing delimiter
+ * @param options.multiLine Whether the body may span lines
+ * @param options.doubled Whether a doubled closing delimiter stands for itself
+ * @param context State of the current scan
+ * @returns Offset of the closing delimiter, or -1 if there is none
+ */
+function findClose(
+  text: string,
+  from: number,
+  close: string,
+  options: { escapes: boolean, multiLine: boolean, doubled?: boolean },
+  context: ScanContext,
+): number {
+  const { escapes, multiLine, doubled = false } = options
+  const unclosedKey = `${close}${escapes}${doubled}`
+
+  if (from >= (context.unclosed.get(unclosedKey) ?? Infinity)) {
+    return -1
+  }
+
+  let i = from
+  while (i < text.length) {
+    if (!multiLine && text[i] === '\n') {
+      return -1
+    }
+    if (text.startsWith(close, i)) {
+      if (doubled && text.startsWith(close, i + close.length)) {
+        i += close.length * 2
+        continue
+      }
+      if (!(escapes && isEscaped(text, i))) {
+        return i
+      }
+    }
+    i++
+  }
+
+  context.unclosed.set(unclosedKey, Math.min(from, context.unclosed.get(unclosedKey) ?? Infinity))
+  return -1
+}
+
+/**
+ * Find where the value of a literal ends when the line break before its
+ * closing delimiter line is not part of it. Returns the offset of that line
+ * break, or the closing offset if the closing delimiter does not start a line.
+ */
+function beforeLastLineBreak(text: string, contentStart: number, closeStart: number): number {
+  const lastLine = text.lastIndexOf('\n', closeStart - 1)
+  if (lastLine < contentStart - 1 || !/^[ \t]*$/.test(text.slice(lastLine + 1, closeStart))) {
+    return closeStart
+  }
+  return Math.max(contentStart, text[lastLine - 1] === '\r' ? lastLine - 1 : lastLine)
+}
+
+/**
+ * Literal with fixed delimiters and an optional fixed prefix
+ *
+ * @param quoteStyle The delimiters of the literal
+ * @param options How the body is delimited
+ * @param options.doubled Whether a doubled closing delimiter stands for itself
+ * (C# verbatim strings)
+ */
+function quoted(quoteStyle: QuoteStyle, options: { doubled?: boolean } = {}): LiteralGrammar {
+  const { open, close, supportsEscape, multiLine, prefix = '' } = quoteStyle
+  const letterPrefix = /^[a-z]/i.test(prefix)
+
+  return {
+    firstChars: (prefix || open)[0],
+    match(text, offset, context) {
+      if (!text.startsWith(prefix, offset) || !text.startsWith(open, offset + prefix.length)) {
+        return null
+      }
+      if (letterPrefix && followsWord(text, offset)) {
+        return null
+      }
+
+      const contentStart = offset + prefix.length + open.length
+      const contentEnd = findClose(text, contentStart, close, { escapes: supportsEscape, multiLine, doubled: options.doubled }, context)
+      return contentEnd < 0
+        ? null
+        : { start: offset, end: contentEnd + close.length, contentStart, contentEnd, quoteStyle }
+    },
+  }
+}
+
+/**
+ * Multi-line literal whose opening delimiter ends its line, like Java text
+ * blocks and Swift multi-line strings
+ *
+ * @param quoteStyle The delimiters of the literal
+ * @param options How the body is delimited
+ * @param options.dropLastLineBreak Whether the line break before the closing
+ * delimiter line is not part of the value (Swift)
+ */
+function textBlock(quoteStyle: QuoteStyle, options: { dropLastLineBreak?: boolean } = {}): LiteralGrammar {
+  const { open, close, supportsEscape, prefix = '' } = quoteStyle
+
+  return {
+    firstChars: (prefix || open)[0],
+    match(text, offset, context) {
+      if (!text.startsWith(prefix, offset) || !text.startsWith(open, offset + prefix.length)) {
+        return null
+      }
+
+      const lineEnd = /[ \t]*\r?\n/y
+      lineEnd.lastIndex = offset + prefix.length + open.length
+      if (!lineEnd.exec(text)) {
+        return null
+      }
+
+      const contentStart = lineEnd.lastIndex
+      const closeStart = findClose(text, contentStart, close, { escapes: supportsEscape, multiLine: true }, context)
+      if (closeStart < 0) {
+        return null
+      }
+
+      const contentEnd = options.dropLastLineBreak ? beforeLastLineBreak(text, contentStart, closeStart) : closeStart
+      return { start: offset, end: closeStart + close.length, contentStart, contentEnd, quoteStyle }
+    },
+  }
+}
+
+/**
+ * Literal whose delimiters are only known once its opening is matched
+ *
+ * @param firstChars Characters the opening can start with
+ * @param opening Sticky pattern of the whole opening
+ * @param resolve Build the quote style of a matched opening, or return null
+ * to reject it
+ * @param options How the body is delimited
+ * @param options.skipLineBreak Whether a line break right after the opening
+ * is not part of the value (Lua long brackets)
+ * @param options.dropLastLineBreak Whether the line break before the closing
+ * delimiter line is not part of the value
+ */
+function delimited(
+  firstChars: string,
+  opening: RegExp,
+  resolve: (match: RegExpExecArray, text: string) => QuoteStyle | null,
+  options: { skipLineBreak?: boolean, dropLastLineBreak?: boolean } = {},
+): LiteralGrammar {
+  return {
+    firstChars,
+    match(text, offset, context) {
+      opening.lastIndex = offset
+      const match = opening.exec(text)
+      const quoteStyle = match && resolve(match, text)
+      if (!match || !quoteStyle) {
+        return null
+      }
+
+      let contentStart = offset + match[0].length
+      if (options.skipLineBreak) {
+        const lineBreak = /\r?\n/y
+        lineBreak.lastIndex = contentStart
+        contentStart = lineBreak.exec(text) ? lineBreak.lastIndex : contentStart
+      }
+
+      const { close, supportsEscape, multiLine } = quoteStyle
+      const closeStart = findClose(text, contentStart, close, { escapes: supportsEscape, multiLine }, context)
+      if (closeStart < 0) {
+        return null
+      }
+
+      const contentEnd = options.dropLastLineBreak ? beforeLastLineBreak(text, contentStart, closeStart) : closeStart
+      return { start: offset, end: closeStart + close.length, contentStart, contentEnd, quoteStyle }
+    },
+  }
+}
+
+/**
+ * Here-document, whose body runs from the line after the opening to a line
+ * holding only the terminator
+ *
+ * @param firstChars Characters the opening can start with
+ * @param opening Sticky pattern of the opening
+ * @param resolve Build the quote style of a matched opening, with the
+ * terminator as closing delimiter, or return null to reject it
+ * @param options How the terminator line looks
+ * @param options.terminator Global multi-line pattern of the terminator line,
+ * given the terminator and the opening
+ * @param options.dropLastLineBreak Whether the line break before the
+ * terminator line is not part of the value (PHP)
+ */
+function hereDocument(
+  firstChars: string,
+  opening: RegExp,
+  resolve: (match: RegExpExecArray, text: string) => QuoteStyle | null,
+  options: { terminator: (id: string, match: RegExpExecArray) => RegExp, dropLastLineBreak?: boolean },
+): LiteralGrammar {
+  return {
+    firstChars,
+    match(text, offset) {
+      opening.lastIndex = offset
+      const match = opening.exec(text)
+      const quoteStyle = match && resolve(match, text)
+      if (!match || !quoteStyle) {
+        return null
+      }
+
+      const bodyStart = text.indexOf('\n', opening.lastIndex)
+      if (bodyStart < 0) {
+        return null
+      }
+
+      const terminator = options.terminator(quoteStyle.close, match)
+      terminator.lastIndex = bodyStart + 1
+      const end = terminator.exec(text)
+      if (!end) {
+        return null
+      }
+
+      const contentStart = bodyStart + 1
+      const contentEnd = options.dropLastLineBreak ? beforeLastLineBreak(text, contentStart, end.index) : end.index
+
+      return { start: offset, end: terminator.lastIndex, contentStart, contentEnd, quoteStyle }
+    },
+  }
+}
+
+const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '<': '>' }
+
+/**
+ * Ruby `%q(...)`, `%Q(...)` and `%(...)` literals, where bracket delimiters
+ * nest
+ */
+const rubyPercent: LiteralGrammar = {
+  firstChars: '%',
+  match(text, offset) {
+    const opening = /%(q?)([^\w\s])/iy
+    opening.lastIndex = offset
+    const match = opening.exec(text)
+    if (!match) {
+      return null
+    }
+
+    // A bare `%` after an operand is the modulo operator
+    if (!match[1] && /[\w)\]}]\s*$/.test(text.slice(Math.max(0, offset - 80), offset))) {
+      return null
+    }
+
+    const open = match[2]
+    const close = BRACKET_PAIRS[open] ?? open
+    const contentStart = offset + match[0].length
+    let depth = 0
+
+    for (let i = contentStart; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++
+      }
+      else if (text[i] === close && depth === 0) {
+        return {
+          start: offset,
+          end: i + 1,
+          contentStart,
+          contentEnd: i,
+          quoteStyle: {
+            open,
+            close,
+            prefix: `%${match[1]}`,
+            supportsEscape: match[1] !== 'q',
+            multiLine: true,
+            prefixDisablesEscape: match[1] === 'q' || undefined,
+          },
+        }
+      }
+      else if (text[i] === close) {
+        depth--
+      }
+      else if (text[i] === open && close !== open) {
+        depth++
+      }
+    }
+
+    return null
+  },
+}
+
+/**
+ * Rust raw strings `r"..."`, `r#"..."#` and byte variants, closed by a quote
+ * followed by as many `#` as opened
+ *
+ * @param opening Sticky pattern of the opening, capturing the `#` run
+ */
+function rustRaw(opening: RegExp): LiteralGrammar {
+  return delimited('br', opening, (match, text) => followsWord(text, match.index)
+    ? null
+    : {
+        open: '"',
+        close: `"${match[1]}`,
+        prefix: match[0].slice(0, -1),
+        supportsEscape: false,
+        multiLine: true,
+        prefixDisablesEscape: true,
+      })
+}
+
+/**
+ * C++ raw strings `R"delim(...)delim"`
+ */
+const cppRaw = delimited('uULR', /(?:u8|[uUL])?R"([^\s()\\]{0,16})\(/y, (match, text) => {
+  if (followsWord(text, match.index)) {
+    return null
+  }
+  const prefix = match[0].slice(0, match[0].indexOf('"'))
+  return {
+    open: `"${match[1]}(`,
+    close: `)${match[1]}"`,
+    prefix,
+    supportsEscape: false,
+    multiLine: true,
+    prefixDisablesEscape: true,
+  }
+})
+
+/**
+ * Swift extended delimiters `#"..."#`. Escapes need as many `#` after the
+ * backslash, so the body is read as raw text.
+ */
+const swiftExtended = delimited('#', /(#+)"/y, match => ({
+  open: '"',
+  close: `"${match[1]}`,
+  prefix: match[1],
+  supportsEscape: false,
+  multiLine: false,
+  prefixDisablesEscape: true,
+}))
+
+/**
+ * Swift multi-line strings with extended delimiters `#"""..."""#`
+ */
+const swiftExtendedBlock = delimited('#', /(#+)"""(?=[ \t]*\r?\n)/y, match => ({
+  open: '"""',
+  close: `"""${match[1]}`,
+  prefix: match[1],
+  supportsEscape: false,
+  multiLine: true,
+  prefixDisablesEscape: true,
+  stripIndent: 'common',
+}), { skipLineBreak: true, dropLastLineBreak: true })
+
+/**
+ * Lua long brackets `[[...]]` and `[==[...]==]`, skipping comments `--[[`
+ */
+const luaLongBracket = delimited('[', /\[(=*)\[/y, (match, text) => text.slice(match.index - 2, match.index) === '--'
+  ? null
+  : {
+      open: match[0],
+      close: `]${match[1]}]`,
+      supportsEscape: false,
+      multiLine: true,
+      prefixDisablesEscape: true,
+    }, { skipLineBreak: true })
+
+/**
+ * Shell here-documents `<<EOF`, `<<-EOF` (leading tabs stripped) and
+ * `<<'EOF'`. Bodies are read as raw text.
+ */
+const shellHereDocument = hereDocument(
+  '<',
+  /<<(-?)[ \t]*(['"]?)\\?([A-Z_]\w*)\2/iy,
+  (match, text) => text[match.index - 1] === '<'
+    ? null
+    : {
+        open: match[0].slice(match[1] ? 3 : 2),
+        close: match[3],
+        prefix: `<<${match[1]}`,
+        supportsEscape: false,
+        multiLine: true,
+        prefixDisablesEscape: true,
+        stripIndent: match[1] ? 'tabs' : undefined,
+      },
+  { terminator: (id, match) => new RegExp(`^${match[1] ? '\\t*' : ''}${id}(?=\\r?$)`, 'gm') },
+)
+
+/**
+ * PHP heredocs `<<<EOT` and nowdocs `<<<'EOT'`, whose closing marker may be
+ * indented
+ */
+const phpHereDocument = hereDocument(
+  '<',
+  /<<<[ \t]*(['"]?)([A-Z_]\w*)\1(?=\r?\n)/iy,
+  match => ({
+    open: match[0].slice(3),
+    close: match[2],
+    prefix: '<<<',
+    supportsEscape: match[1] !== '\'',
+    multiLine: true,
+    prefixDisablesEscape: match[1] === '\'' || undefined,
+    stripIndent: 'common',
+  }),
+  { terminator: id => new RegExp(`^[ \\t]*${id}(?!\\w)`, 'gm'), dropLastLineBreak: true },
+)
+
+/**
+ * Common quote styles used in various programming languages, used for
+ * languages without a grammar of their own
+ */
+const DEFAULT_QUOTE_STYLES: QuoteStyle[] = [
+  // Python raw strings (no escape processing)
+  { open: '"', close: '"', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
+  { open: '\'', close: '\'', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
+  { open: '"""', close: '"""', supportsEscape: false, multiLine: true, prefix: 'r', prefixDisablesEscape: true },
+  { open: '\'\'\'', close: '\'\'\'', supportsEscape: false, multiLine: true, prefix: 'r', prefixDisablesEscape: true },
+
+  // C# verbatim strings (no escape processing except for double quotes)
+  { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: '@', prefixDisablesEscape: true },
+
+  // Python byte strings
+  { open: '"', close: '"', supportsEscape: true, multiLine: false, prefix: 'b' },
+  { open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: 'b' },
+
+  // Shell ANSI-C quoting
+  { open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: '$' },
+
+  // Python f-strings (formatted strings)
+  { open: '"', close: '"', supportsEscape: true, multiLine: false, prefix: 'f' },
+  { open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: 'f' },
+
+  // Triple quotes (must be checked before single quotes)
+  { open: '"""', close: '"""', supportsEscape: true, multiLine: true },
+  { open: '\'\'\'', close: '\'\'\'', supportsEscape: true, multiLine: true },
+
+  // Backtick / template literals
+  { open: '`', close: '`', supportsEscape: true, multiLine: true },
+
+  // Standard quotes
+  { open: '"', close: '"', supportsEscape: true, multiLine: false },
+  { open: '\'', close: '\'', supportsEscape: true, multiLine: false },
+]
+
+/**
+ * Order quote styles so that longer delimiters are tried first, so that
+ * e.g. `r"""` wins over `r"` and `"""` over `"`
+ */
+function longestFirst(quoteStyles: QuoteStyle[]): QuoteStyle[] {
+  return [...quoteStyles].sort(
+    (a, b) => ((b.prefix?.length ?? 0) + b.open.length) - ((a.prefix?.length ?? 0) + a.open.length),
+  )
+}
+
+/**
+ * Every spelling of a string prefix, e.g. `rb`, `rB`, `Rb` and `RB`
+ */
+function caseVariants(prefix: string): string[] {
+  return [...prefix].reduce<string[]>(
+    (variants, char) => variants.flatMap(variant => [variant + char.toLowerCase(), variant + char.toUpperCase()]),
+    [''],
+  )
+}
+
+/**
+ * Python strings with any combination of the `r`, `u`, `b` and `f` prefixes
+ */
+function pythonQuoteStyles(): QuoteStyle[] {
+  const prefixes = ['', 'r', 'u', 'b', 'f', 'br', 'rb', 'fr', 'rf'].flatMap(caseVariants)
+  return prefixes.flatMap((prefix) => {
+    const raw = /r/i.test(prefix)
+    return ['"""', '\'\'\'', '"', '\''].map(quote => ({
+      open: quote,
+      close: quote,
+      supportsEscape: !raw,
+      multiLine: quote.length === 3,
+      prefix: prefix || undefined,
+      prefixDisablesEscape: raw || undefined,
+    }))
+  })
+}
+
+const DOUBLE: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false }
+const SINGLE: QuoteStyle = { open: '\'', close: '\'', supportsEscape: true, multiLine: false }
+const BACKTICK: QuoteStyle = { open: '`', close: '`', supportsEscape: true, multiLine: true }
+
+const DEFAULT_GRAMMARS: LiteralGrammar[] = [rustRaw(/r(#+)"/y), ...longestFirst(DEFAULT_QUOTE_STYLES).map(style => quoted(style))]
+const JAVASCRIPT_GRAMMARS = [BACKTICK, DOUBLE, SINGLE].map(style => quoted(style))
+const JSON_GRAMMARS = [quoted(DOUBLE)]
+const C_GRAMMARS = [cppRaw, quoted(DOUBLE), quoted(SINGLE)]
+
+/**
+ * Literal grammars of VS Code language identifiers, tried in order at each
+ * offset
+ */
+const LANGUAGE_GRAMMARS: Record<string, LiteralGrammar[]> = {
+  'javascript': JAVASCRIPT_GRAMMARS,
+  'javascriptreact': JAVASCRIPT_GRAMMARS,
+  'typescript': JAVASCRIPT_GRAMMARS,
+  'typescriptreact': JAVASCRIPT_GRAMMARS,
+  'vue': JAVASCRIPT_GRAMMARS,
+  'svelte': JAVASCRIPT_GRAMMARS,
+  'json': JSON_GRAMMARS,
+  'jsonc': JSON_GRAMMARS,
+  'jsonl': JSON_GRAMMARS,
+  'json5': [quoted(DOUBLE), quoted(SINGLE)],
+  'python': longestFirst(pythonQuoteStyles()).map(style => quoted(style)),
+  'java': [
+    textBlock({ open: '"""', close: '"""', supportsEscape: true, multiLine: true, stripIndent: 'common' }),
+    quoted(DOUBLE),
+    quoted(SINGLE),
+  ],
+  'kotlin': [
+    quoted({ open: '"""', close: '"""', supportsEscape: false, multiLine: true, prefixDisablesEscape: true }),
+    quoted(DOUBLE),
+    quoted(SINGLE),
+  ],
+  'c': C_GRAMMARS,
+  'cpp': C_GRAMMARS,
+  'objective-c': C_GRAMMARS,
+  'objective-cpp': C_GRAMMARS,
+  'csharp': [
+    ...['@$', '$@', '@'].map(prefix => quoted(
+      { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix, prefixDisablesEscape: true },
+      { doubled: true },
+    )),
+    quoted({ ...DOUBLE, prefix: '$' }),
+    quoted(DOUBLE),
+    quoted(SINGLE),
+  ],
+  'go': [
+    quoted({ open: '`', close: '`', supportsEscape: false, multiLine: true, prefixDisablesEscape: true }),
+    quoted(DOUBLE),
+    quoted(SINGLE),
+  ],
+  'rust': [
+    rustRaw(/b?r(#*)"/y),
+    quoted({ open: '"', close: '"', supportsEscape: true, multiLine: true, prefix: 'b' }),
+    quoted({ open: '"', close: '"', supportsEscape: true, multiLine: true }),
+  ],
+  'swift': [
+    swiftExtendedBlock,
+    swiftExtended,
+    textBlock({ open: '"""', close: '"""', supportsEscape: true, multiLine: true, stripIndent: 'common' }, { dropLastLineBreak: true }),
+    quoted(DOUBLE),
+  ],
+  'lua': [luaLongBracket, quoted(DOUBLE), quoted(SINGLE)],
+  'shellscript': [
+    shellHereDocument,
+    quoted({ open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: '$' }),
+    quoted({ open: '"', close: '"', supportsEscape: true, multiLine: true }),
+    quoted({ open: '\'', close: '\'', supportsEscape: false, multiLine: true, prefixDisablesEscape: true }),
+  ],
+  'ruby': [rubyPercent, quoted(DOUBLE), quoted({ ...SINGLE, multiLine: true })],
+  'php': [
+    phpHereDocument,
+    quoted({ open: '"', close: '"', supportsEscape: true, multiLine: true }),
+    quoted({ open: '\'', close: '\'', supportsEscape: true, multiLine: true }),
+  ],
+}
+
+/**
+ * Grammars from the `unescaper.grammars` setting, keyed by language
+ * identifier or `*` for every language
+ */
+let customGrammars: Record<string, LiteralGrammar[]> = {}
+
+/**
+ * Combined grammars by language identifier, so that a language keeps the
+ * same grammar list until the settings change
+ */
+const resolvedGrammars = new Map<string, LiteralGrammar[]>()
+
+/**
+ * Replace the grammars defined in settings. They are tried before the
+ * built-in grammars of their language.
+ */
+export function setCustomGrammars(definitions: Record<string, CustomQuoteStyle[]>): void {
+  customGrammars = Object.fromEntries(
+    Object.entries(definitions).map(([languageId, styles]) => [
+      languageId,
+      longestFirst(styles.map(({ open, close, prefix, supportsEscape = true, multiLine = false }) => ({
+        open,
+        close,
+        prefix: prefix || undefined,
+        supportsEscape,
+        multiLine,
+        prefixDisablesEscape: !supportsEscape || undefined,
+      }))).map(style => quoted(style)),
+    ]),
+  )
+  resolvedGrammars.clear()
+}
+
+/**
+ * Get the literal grammars of a language, in the order they are tried. The
+ * same list is returned until the settings change.
+ */
+export function getLiteralGrammars(languageId = ''): LiteralGrammar[] {
+  let grammars = resolvedGrammars.get(languageId)
+  if (!grammars) {
+    grammars = [
+      ...customGrammars[languageId] ?? [],
+      ...customGrammars['*'] ?? [],
+      ...LANGUAGE_GRAMMARS[languageId] ?? DEFAULT_GRAMMARS,
+    ]
+    resolvedGrammars.set(languageId, grammars)
+  }
+  return grammars
+}
@@ -0,0 +1,200 @@
+import type { Memento } from 'vscode'
+
+const HISTORY_KEY = 'unescaper.history'
+/**
+ * Longest content saved with a preview, in characters. The workspace state
+ * is written whole on each change, so longer content is cut.
+ */
+const MAX_STORED_CONTENT_LENGTH = 64 * 1024
+
+/**
+ * Where the text of a preview comes from
+ */
+export interface PreviewSource {
+  /** URI of the source document */
+  uri: string
+  /** Line of the text in the source, starting at 0 */
+  line: number
+}
+
+/**
+ * A preview kept in the history
+ */
+export interface PreviewEntry {
+  /** Path of the virtual document of the preview */
+  path: string
+  content: string
+  language?: string
+  /** What produced the preview, e.g. `JSON (strict) · JSON` */
+  decoder: string
+  source?: PreviewSource
+  /** When the preview was created, in milliseconds since the epoch */
+  timestamp: number
+  /** Pinned previews are kept regardless of the history size */
+  pinned: boolean
+  /** Whether the content was cut to fit in the workspace state */
+  truncated?: boolean
+}
+
+/**
+ * What is persisted in the workspace state
+ */
+interface StoredHistory {
+  /** Next number used in preview paths, so that paths stay unique */
+  nextId: number
+  entries: PreviewEntry[]
+}
+
+/** Content of the virtual documents currently open */
+const documents = new Map<string, string>()
+/** Previews in the history, newest first */
+let entries: PreviewEntry[] = []
+let nextId = 1
+let memento: Memento | undefined
+const listeners = new Set<() => void>()
+
+/**
+ * Tell the listeners the history changed
+ */
+function notify(): void {
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Save the history, cutting long content, and tell the listeners it changed
+ */
+function commit(): void {
+  const stored = entries.map(entry => entry.content.length > MAX_STORED_CONTENT_LENGTH
+    ? { ...entry, content: entry.content.slice(0, MAX_STORED_CONTENT_LENGTH), truncated: true }
+    : entry)
+  memento?.update(HISTORY_KEY, { nextId, entries: stored } satisfies StoredHistory)
+  notify()
+}
+
+/**
+ * Keep the pinned previews and the given number of recent ones
+ */
+function trim(maxEntries: number): boolean {
+  let recent = 0
+  const kept = entries.filter(entry => entry.pinned || recent++ < maxEntries)
+  const changed = kept.length !== entries.length
+  entries = kept
+  return changed
+}
+
+/**
+ * Load the history saved in a workspace state, which is then kept up to date
+ */
+export function loadPreviewHistory(state: Memento): void {
+  memento = state
+  const stored = state.get<StoredHistory>(HISTORY_KEY)
+  entries = stored?.entries ?? []
+  nextId = stored?.nextId ?? 1
+  documents.clear()
+  notify()
+}
+
+/**
+ * Call a function each time the history changes
+ */
+export function onDidChangePreviewHistory(listener: () => void): { dispose: () => void } {
+  listeners.add(listener)
+  return { dispose: () => listeners.delete(listener) }
+}
+
+/**
+ * Get the previews of the history, pinned first, then newest first
+ */
+export function getPreviewHistory(): PreviewEntry[] {
+  return [...entries.filter(entry => entry.pinned), ...entries.filter(entry => !entry.pinned)]
+}
+
+/**
+ * Find a preview of the history by the path of its document
+ */
+export function findPreview(path: string): PreviewEntry | undefined {
+  return entries.find(entry => entry.path === path)
+}
+
+/**
+ * Make a path for a new virtual document, unique across reloads
+ */
+export function createPreviewPath(name: string, extension = ''): string {
+  return `/${name}-${nextId++}${extension}`
+}
+
+/**
+ * Get the content of a virtual document: the open document, or the preview
+ * of the history it was restored from
+ */
+export function getPreviewContent(path: string): string | undefined {
+  return documents.get(path) ?? findPreview(path)?.content
+}
+
+/**
+ * Set the content of a virtual document, and of its preview in the history.
+ * Live previews set it on each change of their source, so it is only saved
+ * with the next change of the history.
+ */
+export function setPreviewContent(path: string, content: string): void {
+  documents.set(path, content)
+  const entry = findPreview(path)
+  if (entry && entry.content !== content) {
+    entry.content = content
+    entry.truncated = undefined
+    notify()
+  }
+}
+
+/**
+ * Forget the content of a closed virtual document. Previews of the history
+ * keep theirs, to be opened again.
+ */
+export function releasePreview(path: string): void {
+  documents.delete(path)
+}
+
+/**
+ * Add a preview to the history, dropping the oldest ones beyond the limit
+ */
+export function recordPreview(entry: Omit<PreviewEntry, 'pinned'>, maxEntries: number): void {
+  entries = [{ ...entry, pinned: false }, ...entries.filter(existing => existing.path !== entry.path)]
+  trim(maxEntries)
+  commit()
+}
+
+/**
+ * Drop the oldest previews beyond the limit, after the limit changed
+ */
+export function trimPreviewHistory(maxEntries: number): void {
+  if (trim(maxEntries)) {
+    commit()
+  }
+}
+
+/**
+ * Pin or unpin a preview of the history
+ */
+export function setPreviewPinned(path: string, pinned: boolean): void {
+  const entry = findPreview(path)
+  if (entry && entry.pinned !== pinned) {
+    entry.pinned = pinned
+    commit()
+  }
+}
+
+/**
+ * Remove a preview from the history
+ */
+export function removePreview(path: string): void {
+  entries = entries.filter(entry => entry.path !== path)
+  commit()
+}
+
+/**
+ * Remove every preview that is not pinned from the history
+ */
+export function clearPreviewHistory(): void {
+  entries = entries.filter(entry => entry.pinned)
+  commit()
+}
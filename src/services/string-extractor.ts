@@ -1,9 +1,13 @@
 import type { Position, TextDocument } from 'vscode'
+import type { CommentSpan } from './comments'
+import type { LiteralGrammar, LiteralSpan, ScanContext } from './literal-grammars'
+import { findComments } from './comments'
+import { getLiteralGrammars } from './literal-grammars'
 
 /**
  * Quote style configuration
  */
-interface QuoteStyle {
+export interface QuoteStyle {
   /** Opening quote character(s) */
   open: string
   /** Closing quote character(s) */
@@ -16,235 +20,150 @@ interface QuoteStyle {
   prefix?: string
   /** Whether the prefix disables escape sequences */
   prefixDisablesEscape?: boolean
+  /**
+   * Indentation removed from each line of the value: the indentation common
+   * to all lines (e.g. Java text blocks) or leading tabs (shell `<<-`)
+   */
+  stripIndent?: 'common' | 'tabs'
 }
 
-/**
- * Common quote styles used in various programming languages
- */
-const QUOTE_STYLES: QuoteStyle[] = [
-  // Python raw strings (no escape processing)
-  { open: '"', close: '"', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
-  { open: '\'', close: '\'', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true },
-  { open: '"""', close: '"""', supportsEscape: false, multiLine: true, prefix: 'r', prefixDisablesEscape: true },
-  { open: '\'\'\'', close: '\'\'\'', supportsEscape: false, multiLine: true, prefix: 'r', prefixDisablesEscape: true },
-
-  // C# verbatim strings (no escape processing except for double quotes)
-  { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: '@', prefixDisablesEscape: true },
-
-  // Rust raw strings (with multiple # for flexibility)
-  { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: 'r#', prefixDisablesEscape: true },
-  { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: 'r##', prefixDisablesEscape: true },
-  { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: 'r###', prefixDisablesEscape: true },
-
-  // Python byte strings
-  { open: '"', close: '"', supportsEscape: true, multiLine: false, prefix: 'b' },
-  { open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: 'b' },
-
-  // Python f-strings (formatted strings)
-  { open: '"', close: '"', supportsEscape: true, multiLine: false, prefix: 'f' },
-  { open: '\'', close: '\'', supportsEscape: true, multiLine: false, prefix: 'f' },
-
-  // Triple quotes (must be checked before single quotes)
-  { open: '"""', close: '"""', supportsEscape: true, multiLine: true },
-  { open: '\'\'\'', close: '\'\'\'', supportsEscape: true, multiLine: true },
-
-  // Backtick / template literals
-  { open: '`', close: '`', supportsEscape: true, multiLine: true },
-
-  // Standard quotes
-  { open: '"', close: '"', supportsEscape: true, multiLine: false },
-  { open: '\'', close: '\'', supportsEscape: true, multiLine: false },
-]
-
 /**
  * Result of string extraction
  */
-interface ExtractResult {
+export interface ExtractResult {
   /** The extracted string content (without quotes) */
   content: string
   /** Start position (line, character) */
   start: { line: number, character: number }
   /** End position (line, character) */
   end: { line: number, character: number }
+  /** Start position of the content, right after the opening quote */
+  contentStart: { line: number, character: number }
+  /** End position of the content, right before the closing quote */
+  contentEnd: { line: number, character: number }
   /** The quote style used */
   quoteStyle: QuoteStyle
 }
 
 /**
- * Check if a position in text is escaped (preceded by odd number of backslashes)
+ * Literals of a document version, in document order. Literals never overlap,
+ * so they form an interval index sorted by both start and end.
  */
-function isEscaped(text: string, position: number): boolean {
-  let backslashCount = 0
-  let i = position - 1
-  while (i >= 0 && text[i] === '\\') {
-    backslashCount++
-    i--
-  }
-  return backslashCount % 2 === 1
+interface LiteralIndex {
+  version: number
+  grammars: LiteralGrammar[]
+  text: string
+  literals: LiteralSpan[]
+  /** Comments of the document version, found on first use */
+  comments?: CommentSpan[]
 }
 
+const literalIndexes = new WeakMap<TextDocument, LiteralIndex>()
+
 /**
- * Find string at position for single-line quote styles
+ * Pattern finding the next offset where one of the grammars can start
  */
-function findSingleLineString(
-  line: string,
-  lineNumber: number,
-  cursorChar: number,
-  quoteStyle: QuoteStyle,
-): ExtractResult | null {
-  const { open, close, supportsEscape, prefix } = quoteStyle
+function candidatePattern(grammars: LiteralGrammar[]): RegExp {
+  const chars = [...new Set(grammars.flatMap(grammar => [...grammar.firstChars]))]
+  return new RegExp(`[${chars.map(char => char.replace(/[\\\]^-]/g, '\\$&')).join('')}]`, 'g')
+}
 
-  let i = 0
-  while (i < line.length) {
-    // Check for optional prefix
-    const prefixStart = i
-    let prefixLength = 0
-    if (prefix) {
-      if (line.substring(i, i + prefix.length) === prefix) {
-        prefixLength = prefix.length
-        i += prefix.length
-      }
-      else {
-        // This quote style requires a prefix but it's not present, skip
-        i++
-        continue
-      }
+/**
+ * Find every string literal in a text in a single left-to-right pass
+ */
+function scanLiterals(text: string, grammars: LiteralGrammar[]): LiteralSpan[] {
+  const literals: LiteralSpan[] = []
+  const context: ScanContext = { unclosed: new Map() }
+  const candidates = candidatePattern(grammars)
+  const byFirstChar = new Map<string, LiteralGrammar[]>()
+  for (const grammar of grammars) {
+    for (const char of grammar.firstChars) {
+      byFirstChar.set(char, [...byFirstChar.get(char) ?? [], grammar])
     }
+  }
 
-    // Look for opening quote
-    if (line.substring(i, i + open.length) === open) {
-      const startChar = prefixLength > 0 ? prefixStart : i
-      i += open.length
-      const contentStart = i
-
-      // Find closing quote
-      while (i < line.length) {
-        if (line.substring(i, i + close.length) === close) {
-          // Check if escaped
-          if (supportsEscape && isEscaped(line, i)) {
-            i++
-            continue
-          }
-
-          const contentEnd = i
-          const endChar = i + close.length
-
-          // Check if cursor is within this string (inclusive of quotes and prefix)
-          if (cursorChar >= startChar && cursorChar < endChar) {
-            return {
-              content: line.substring(contentStart, contentEnd),
-              start: { line: lineNumber, character: startChar },
-              end: { line: lineNumber, character: endChar },
-              quoteStyle,
-            }
-          }
-
-          i = endChar
-          break
-        }
-        i++
+  let candidate = candidates.exec(text)
+  while (candidate) {
+    const offset = candidate.index
+    let literal: LiteralSpan | null = null
+    for (const grammar of byFirstChar.get(candidate[0])!) {
+      literal = grammar.match(text, offset, context)
+      if (literal) {
+        break
       }
     }
-    else {
-      i++
+
+    if (literal) {
+      literals.push(literal)
+      candidates.lastIndex = literal.end
     }
+    candidate = candidates.exec(text)
   }
 
-  return null
+  return literals
 }
 
 /**
- * Find string at position for multi-line quote styles
+ * Get the literal index of a document, scanning it only when it changed
+ * since the last call
  */
-function findMultiLineString(
-  document: TextDocument,
-  cursorLine: number,
-  cursorChar: number,
-  quoteStyle: QuoteStyle,
-): ExtractResult | null {
-  const { open, close, supportsEscape, prefix } = quoteStyle
-
-  // Get full text and calculate cursor offset
-  const fullText = document.getText()
-  let cursorOffset = 0
-  for (let i = 0; i < cursorLine; i++) {
-    cursorOffset += document.lineAt(i).text.length + 1 // +1 for newline
+function getLiteralIndex(document: TextDocument): LiteralIndex {
+  const grammars = getLiteralGrammars(document.languageId)
+  const cached = literalIndexes.get(document)
+  if (cached && cached.version === document.version && cached.grammars === grammars) {
+    return cached
   }
-  cursorOffset += cursorChar
-
-  let i = 0
-  while (i < fullText.length) {
-    // Check for optional prefix
-    const prefixStart = i
-    let prefixLength = 0
-    if (prefix) {
-      if (fullText.substring(i, i + prefix.length) === prefix) {
-        prefixLength = prefix.length
-        i += prefix.length
-      }
-      else {
-        // This quote style requires a prefix but it's not present, skip
-        i++
-        continue
-      }
-    }
-
-    // Look for opening quote
-    if (fullText.substring(i, i + open.length) === open) {
-      const startOffset = prefixLength > 0 ? prefixStart : i
-      i += open.length
-      const contentStart = i
-
-      // For Rust raw strings, find matching closing with same number of #
-      let closeToMatch = close
-      if (prefix?.startsWith('r#')) {
-        const hashCount = (prefix.match(/#/g) || []).length
-        closeToMatch = `"${'#'.repeat(hashCount)}`
-      }
-
-      // Find closing quote
-      while (i < fullText.length) {
-        if (fullText.substring(i, i + closeToMatch.length) === closeToMatch) {
-          // Check if escaped
-          if (supportsEscape && isEscaped(fullText, i)) {
-            i++
-            continue
-          }
-
-          const contentEnd = i
-          const endOffset = i + closeToMatch.length
-
-          // Check if cursor is within this string
-          if (cursorOffset >= startOffset && cursorOffset < endOffset) {
-            // Convert offsets back to positions
-            const startPos = document.positionAt(startOffset)
-            const endPos = document.positionAt(endOffset)
 
-            return {
-              content: fullText.substring(contentStart, contentEnd),
-              start: { line: startPos.line, character: startPos.character },
-              end: { line: endPos.line, character: endPos.character },
-              quoteStyle,
-            }
-          }
+  const text = document.getText()
+  const index = { version: document.version, grammars, text, literals: scanLiterals(text, grammars) }
+  literalIndexes.set(document, index)
+  return index
+}
 
-          i = endOffset
-          break
-        }
-        i++
-      }
+/**
+ * Find the literal containing an offset by binary search
+ */
+function findLiteralAt(literals: LiteralSpan[], offset: number): LiteralSpan | null {
+  let low = 0
+  let high = literals.length - 1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const literal = literals[middle]
+    if (offset < literal.start) {
+      high = middle - 1
+    }
+    else if (offset >= literal.end) {
+      low = middle + 1
     }
     else {
-      i++
+      return literal
     }
   }
-
   return null
 }
 
 /**
- * Extract string at the given cursor position from any text document
- * Supports multiple quote styles: "", '', ``, """, '''
+ * Convert a literal found by {@link scanLiterals} to document positions
+ */
+function toExtractResult(document: TextDocument, text: string, literal: LiteralSpan): ExtractResult {
+  const toPosition = (offset: number): { line: number, character: number } => {
+    const { line, character } = document.positionAt(offset)
+    return { line, character }
+  }
+
+  return {
+    content: text.substring(literal.contentStart, literal.contentEnd),
+    start: toPosition(literal.start),
+    end: toPosition(literal.end),
+    contentStart: toPosition(literal.contentStart),
+    contentEnd: toPosition(literal.contentEnd),
+    quoteStyle: literal.quoteStyle,
+  }
+}
+
+/**
+ * Extract string at the given cursor position from any text document,
+ * using the literal grammars of the document language
  *
  * @param document The text document
  * @param position The cursor position
@@ -254,28 +173,7 @@ export function extractStringAtPosition(
   document: TextDocument,
   position: Position,
 ): string | null {
-  const line = document.lineAt(position.line).text
-  const cursorChar = position.character
-
-  // Try each quote style, starting with longer ones (triple quotes first)
-  for (const quoteStyle of QUOTE_STYLES) {
-    let result: ExtractResult | null = null
-
-    if (quoteStyle.multiLine) {
-      // For multi-line strings, we need to search the entire document
-      result = findMultiLineString(document, position.line, cursorChar, quoteStyle)
-    }
-    else {
-      // For single-line strings, just search the current line
-      result = findSingleLineString(line, position.line, cursorChar, quoteStyle)
-    }
-
-    if (result) {
-      return result.content
-    }
-  }
-
-  return null
+  return extractStringWithDetails(document, position)?.content ?? null
 }
 
 /**
@@ -285,23 +183,35 @@ export function extractStringWithDetails(
   document: TextDocument,
   position: Position,
 ): ExtractResult | null {
-  const line = document.lineAt(position.line).text
-  const cursorChar = position.character
-
-  for (const quoteStyle of QUOTE_STYLES) {
-    let result: ExtractResult | null = null
+  const { text, literals } = getLiteralIndex(document)
+  const literal = findLiteralAt(literals, document.offsetAt(position))
+  return literal ? toExtractResult(document, text, literal) : null
+}
 
-    if (quoteStyle.multiLine) {
-      result = findMultiLineString(document, position.line, cursorChar, quoteStyle)
-    }
-    else {
-      result = findSingleLineString(line, position.line, cursorChar, quoteStyle)
-    }
+/**
+ * Extract every string literal of a document, in document order.
+ * Literals never overlap: quotes inside a string do not start another one.
+ */
+export function extractAllStrings(document: TextDocument): ExtractResult[] {
+  const { text, literals } = getLiteralIndex(document)
+  return literals.map(literal => toExtractResult(document, text, literal))
+}
 
-    if (result) {
-      return result
-    }
-  }
+/**
+ * Find the comments of a document, as offsets, e.g. to leave out the
+ * literals that are only quoted text in a comment
+ */
+export function extractComments(document: TextDocument): CommentSpan[] {
+  const index = getLiteralIndex(document)
+  index.comments ??= findComments(index.text, document.languageId, index.literals)
+  return index.comments
+}
 
-  return null
+/**
+ * Find every string literal of a text with the literal grammars of a
+ * language, as offsets. Unlike the functions above, it needs no document,
+ * e.g. to scan files that are not open.
+ */
+export function extractLiteralsFromText(text: string, languageId?: string): LiteralSpan[] {
+  return scanLiterals(text, getLiteralGrammars(languageId))
 }
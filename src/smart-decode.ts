@@ -0,0 +1,225 @@
+import type { DialectId } from './dialects'
+import { gunzipSync, inflateSync } from 'node:zlib'
+import { DECODERS } from './decoders'
+import { decodeBytes, unescapeDetailed } from './unescape'
+
+/**
+ * Kinds of decoding steps {@link smartDecode} can detect
+ */
+export type DecodeStepId = 'jwt' | 'json' | 'base64' | 'base64url' | 'gzip' | 'deflate' | 'url' | 'backslash'
+
+/**
+ * Decoded value: text, or bytes that are not UTF-8 text
+ */
+export type DecodedValue = string | Uint8Array
+
+/**
+ * One step of a decoding chain
+ */
+export interface DecodeStep {
+  id: DecodeStepId
+  /** The value after this step */
+  value: DecodedValue
+  /** Whether the value is final, e.g. formatted JSON */
+  final?: boolean
+}
+
+/**
+ * Shortest text decoded as Base64, so that plain words are not mistaken for it
+ */
+const MIN_BASE64_LENGTH = 8
+
+/**
+ * Longest output of decompression, so that a few bytes of Base64 cannot
+ * expand into a huge buffer. Longer output is not taken as compressed data.
+ */
+const MAX_INFLATED_LENGTH = 1024 * 1024
+
+/**
+ * Decode bytes as text when they are printable UTF-8, or keep them as bytes
+ */
+function toValue(bytes: Uint8Array): DecodedValue {
+  const text = decodeBytes(Array.from(bytes))
+  return text !== null && isPrintable(text) ? text : bytes
+}
+
+/**
+ * Check that text has no control characters other than line breaks and tabs,
+ * nor the replacement character of invalid UTF-8
+ */
+function isPrintable(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D) || code === 0x7F || code === 0xFFFD) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Check for the gzip magic number
+ */
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1F && bytes[1] === 0x8B
+}
+
+/**
+ * Check for a zlib header: deflate method and a valid header checksum
+ */
+function isZlib(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && (bytes[0] & 0x0F) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0
+}
+
+/**
+ * Decode Base64 (standard or URL-safe) to bytes, or return null if the text
+ * is not Base64 or decodes to neither text nor compressed data
+ */
+function decodeBase64(text: string): DecodeStep | null {
+  // Base64 is only wrapped at line breaks, so text with spaces is not Base64
+  const compact = text.trim().replace(/\r?\n/g, '')
+  if (compact.length < MIN_BASE64_LENGTH || compact.length % 4 === 1) {
+    return null
+  }
+
+  const urlSafe = /^[\w-]+$/.test(compact) && /[-_]/.test(compact)
+  if (!urlSafe && !/^[A-Z\d+/]+={0,2}$/i.test(compact)) {
+    return null
+  }
+
+  const standard = compact.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '')
+  const binary = atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, '='))
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  // Binary data is only followed when it can be decompressed
+  const compressed = isGzip(bytes) || isZlib(bytes)
+  const value = compressed ? bytes : toValue(bytes)
+  return compressed || typeof value === 'string' ? { id: urlSafe ? 'base64url' : 'base64', value } : null
+}
+
+/**
+ * Decode a JWT into its header, payload and signature, or return null if the
+ * text is not a JWT
+ */
+function decodeJwt(text: string): DecodeStep | null {
+  const match = /^([\w-]+)\.([\w-]+)\.([\w-]*)$/.exec(text.trim())
+  if (!match) {
+    return null
+  }
+
+  try {
+    const header: unknown = JSON.parse(DECODERS.base64url.decode(match[1]) ?? '')
+    const payload: unknown = JSON.parse(DECODERS.base64url.decode(match[2]) ?? '')
+    if (typeof header !== 'object' || header === null || !('alg' in header)) {
+      return null
+    }
+    return { id: 'jwt', value: JSON.stringify({ header, payload, signature: match[3] }, null, 2), final: true }
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Format a JSON object or array, or unquote a JSON string
+ */
+function decodeJson(text: string): DecodeStep | null {
+  const trimmed = text.trim()
+  if (!/^[{["]/.test(trimmed)) {
+    return null
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed)
+    if (typeof parsed === 'string') {
+      return { id: 'json', value: parsed }
+    }
+    const formatted = JSON.stringify(parsed, null, 2)
+    return formatted === text ? null : { id: 'json', value: formatted, final: true }
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Detect the next decoding step of a value, or return null if no decoder
+ * applies
+ */
+function detectStep(value: DecodedValue, dialect: DialectId): DecodeStep | null {
+  if (typeof value !== 'string') {
+    try {
+      if (isGzip(value)) {
+        return { id: 'gzip', value: toValue(new Uint8Array(gunzipSync(value, { maxOutputLength: MAX_INFLATED_LENGTH }))) }
+      }
+      if (isZlib(value)) {
+        return { id: 'deflate', value: toValue(new Uint8Array(inflateSync(value, { maxOutputLength: MAX_INFLATED_LENGTH }))) }
+      }
+    }
+    catch {
+      // Corrupt or truncated data, or output beyond the limit
+    }
+    return null
+  }
+
+  const structured = decodeJwt(value) ?? decodeJson(value) ?? decodeBase64(value)
+  if (structured) {
+    return structured
+  }
+
+  if (/%[\da-f]{2}/i.test(value)) {
+    const decoded = DECODERS.url.decode(value)
+    if (decoded !== null) {
+      return { id: 'url', value: decoded }
+    }
+  }
+
+  if (value.includes('\\')) {
+    const { text, issues } = unescapeDetailed(value, dialect)
+    if (issues.length === 0 && text !== value) {
+      return { id: 'backslash', value: text }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Repeatedly detect the encoding of a text and decode it, until no decoder
+ * applies, the result is final (JSON, JWT) or the step limit is reached
+ *
+ * @param text The text to decode
+ * @param options How to decode
+ * @param options.dialect Dialect of backslash escapes
+ * @param options.maxSteps Maximum number of steps
+ * @returns The steps taken, in order
+ */
+export function smartDecode(text: string, options: { dialect: DialectId, maxSteps: number }): DecodeStep[] {
+  const steps: DecodeStep[] = []
+  let value: DecodedValue = text
+
+  while (steps.length < options.maxSteps) {
+    const step = detectStep(value, options.dialect)
+    if (!step) {
+      break
+    }
+    steps.push(step)
+    if (step.final) {
+      break
+    }
+    value = step.value
+  }
+
+  return steps
+}
+
+/**
+ * Show bytes that are not text as a hex dump, 16 bytes per line
+ */
+export function formatBytes(bytes: Uint8Array): string {
+  const lines: string[] = []
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = Array.from(bytes.subarray(offset, offset + 16), byte => byte.toString(16).padStart(2, '0'))
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${row.join(' ')}`)
+  }
+  return lines.join('\n')
+}
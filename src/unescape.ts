@@ -1,37 +1,447 @@
+import type { DialectId, EscapeCategory, EscapeRule } from './dialects'
+import type { QuoteStyle } from './services/string-extractor'
+import { DIALECTS } from './dialects'
+
+/**
+ * Kinds of malformed or undecoded input reported by {@link unescapeDetailed}
+ * - `unknown`: the character after the backslash starts no escape sequence
+ * - `invalid`: a well-formed sequence with a value the dialect does not allow
+ * - `truncated`: a sequence that ends before all its digits
+ * - `lone-surrogate`: a UTF-16 surrogate escape without its other half
+ * - `invalid-utf8`: byte escapes that do not form valid UTF-8
+ * - `unresolved`: a well-formed sequence whose value is not known, e.g. a
+ *   Unicode character name, left as written
+ */
+export type UnescapeIssueKind = 'unknown' | 'invalid' | 'truncated' | 'lone-surrogate' | 'invalid-utf8' | 'unresolved'
+
+/**
+ * A malformed escape sequence found while unescaping
+ */
+export interface UnescapeIssue {
+  kind: UnescapeIssueKind
+  /** Offset of the sequence in the input, starting at its backslash */
+  offset: number
+  /** Length of the sequence in the input */
+  length: number
+}
+
+/**
+ * A span of the output and the span of the input it was produced from.
+ * Characters of `text` segments map one to one, `escape` segments map as a
+ * whole: an escape sequence, or consecutive byte escapes decoded together.
+ */
+export interface UnescapeSegment {
+  kind: 'text' | 'escape'
+  inputStart: number
+  inputEnd: number
+  outputStart: number
+  outputEnd: number
+}
+
+/**
+ * Result of unescaping with a report of malformed input
+ */
+export interface UnescapeResult {
+  /** The unescaped text */
+  text: string
+  /** Malformed escape sequences, ordered by offset */
+  issues: UnescapeIssue[]
+  /**
+   * Mapping between output and input offsets, in order, when requested.
+   * Segments cover both the input and the output without gaps.
+   */
+  segments?: UnescapeSegment[]
+}
+
+type DecodedEscape
+  = | { value: string, end: number, byte: boolean, category: EscapeCategory }
+    | { issue: UnescapeIssueKind, end: number }
+
+/**
+ * Decode the escape sequence whose backslash precedes the given index
+ */
+function decodeEscape(text: string, index: number, rules: EscapeRule[]): DecodedEscape {
+  let invalidEnd: number | undefined
+  let truncatedEnd: number | undefined
+
+  for (const rule of rules) {
+    rule.pattern.lastIndex = index
+    const match = rule.pattern.exec(text)
+
+    if (match) {
+      const value = rule.decode(match)
+      if (value !== undefined) {
+        return { value, end: rule.pattern.lastIndex, byte: rule.byte ?? false, category: rule.category }
+      }
+      if (rule.unresolved) {
+        return { issue: 'unresolved', end: rule.pattern.lastIndex }
+      }
+      invalidEnd ??= rule.pattern.lastIndex
+      continue
+    }
+
+    if (rule.lead) {
+      rule.lead.lastIndex = index
+      if (rule.lead.test(text)) {
+        // Include the digits that are there in the reported sequence
+        let end = rule.lead.lastIndex
+        while (end < text.length && /[\da-f]/i.test(text[end])) {
+          end++
+        }
+        truncatedEnd ??= end
+      }
+    }
+  }
+
+  if (invalidEnd !== undefined) {
+    return { issue: 'invalid', end: invalidEnd }
+  }
+  if (truncatedEnd !== undefined || index >= text.length) {
+    return { issue: 'truncated', end: truncatedEnd ?? index }
+  }
+  return { issue: 'unknown', end: index + String.fromCodePoint(text.codePointAt(index)!).length }
+}
+
+/**
+ * Decode bytes as UTF-8, or return null if they are not valid UTF-8
+ */
+export function decodeBytes(bytes: number[]): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes))
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Check if a decoded value is a single UTF-16 surrogate code unit
+ */
+function surrogateKind(value: string): 'high' | 'low' | null {
+  if (value.length !== 1) {
+    return null
+  }
+  const code = value.charCodeAt(0)
+  if (code >= 0xD800 && code <= 0xDBFF) {
+    return 'high'
+  }
+  if (code >= 0xDC00 && code <= 0xDFFF) {
+    return 'low'
+  }
+  return null
+}
+
+/**
+ * Unescape a string and report every malformed escape sequence.
+ * Malformed sequences are left untouched in the output.
+ *
+ * @param text The escaped text
+ * @param dialectId The escape sequence grammar to use
+ * @param options What to report and decode
+ * @param options.mapping Whether to return the offset mapping in `segments`
+ * @param options.categories The categories of escape sequences to decode,
+ * all by default. Sequences of other categories are kept as written.
+ */
+export function unescapeDetailed(
+  text: string,
+  dialectId: DialectId = 'generic',
+  options: { mapping?: boolean, categories?: EscapeCategory[] } = {},
+): UnescapeResult {
+  const { rules, utf8Bytes, literalBackslash } = DIALECTS[dialectId]
+  const issues: UnescapeIssue[] = []
+  const segments: UnescapeSegment[] = []
+
+  let result = ''
+
+  // Append output produced by a span of the input
+  const append = (output: string, kind: UnescapeSegment['kind'], inputStart: number, inputEnd: number): void => {
+    if (options.mapping) {
+      segments.push({ kind, inputStart, inputEnd, outputStart: result.length, outputEnd: result.length + output.length })
+    }
+    result += output
+  }
+
+  // Consecutive byte escapes, decoded together as UTF-8
+  let pendingBytes: number[] = []
+  let pendingBytesStart = 0
+  let pendingBytesEnd = 0
+
+  // A high surrogate escape waiting for its low half
+  let pendingHigh: UnescapeIssue | null = null
+
+  const flush = (): void => {
+    if (pendingHigh) {
+      issues.push(pendingHigh)
+      pendingHigh = null
+    }
+    if (pendingBytes.length > 0) {
+      const decoded = decodeBytes(pendingBytes)
+      if (decoded === null) {
+        issues.push({ kind: 'invalid-utf8', offset: pendingBytesStart, length: pendingBytesEnd - pendingBytesStart })
+      }
+      append(decoded ?? String.fromCharCode(...pendingBytes), 'escape', pendingBytesStart, pendingBytesEnd)
+      pendingBytes = []
+    }
+  }
+
+  let index = 0
+  while (index < text.length) {
+    const backslash = text.indexOf('\\', index)
+    if (backslash === -1) {
+      break
+    }
+
+    if (backslash > index) {
+      flush()
+      append(text.slice(index, backslash), 'text', index, backslash)
+    }
+
+    const decoded = decodeEscape(text, backslash + 1, rules)
+    const sequence = { offset: backslash, length: decoded.end - backslash }
+
+    if ('issue' in decoded) {
+      flush()
+      if (decoded.issue !== 'unknown' || !literalBackslash) {
+        issues.push({ kind: decoded.issue, ...sequence })
+      }
+      append('\\', 'text', backslash, backslash + 1)
+      index = backslash + 1
+      continue
+    }
+
+    if (options.categories && !options.categories.includes(decoded.category)) {
+      flush()
+      append(text.slice(backslash, decoded.end), 'text', backslash, decoded.end)
+      index = decoded.end
+      continue
+    }
+
+    // Byte escapes may form a multi-byte UTF-8 sequence together
+    if (decoded.byte && utf8Bytes) {
+      if (pendingHigh) {
+        issues.push(pendingHigh)
+        pendingHigh = null
+      }
+      if (pendingBytes.length === 0) {
+        pendingBytesStart = backslash
+      }
+      pendingBytes.push(decoded.value.charCodeAt(0))
+      pendingBytesEnd = decoded.end
+      index = decoded.end
+      continue
+    }
+
+    const surrogate = surrogateKind(decoded.value)
+    if (surrogate === 'low' && pendingHigh) {
+      // Completes the pair started by the previous escape
+      pendingHigh = null
+    }
+    else {
+      flush()
+      if (surrogate === 'high') {
+        pendingHigh = { kind: 'lone-surrogate', ...sequence }
+      }
+      else if (surrogate === 'low') {
+        issues.push({ kind: 'lone-surrogate', ...sequence })
+      }
+    }
+
+    append(decoded.value, 'escape', backslash, decoded.end)
+    index = decoded.end
+  }
+
+  flush()
+  if (index < text.length) {
+    append(text.slice(index), 'text', index, text.length)
+  }
+  issues.sort((a, b) => a.offset - b.offset)
+  return options.mapping ? { text: result, issues, segments } : { text: result, issues }
+}
+
+/**
+ * Map a range of the output of {@link unescapeDetailed} to the input that
+ * produced it, or a range of the input to the output it produced. An empty
+ * range maps the character after it, so that a cursor finds the span it
+ * stands before.
+ *
+ * @param segments The mapping returned with `mapping: true`
+ * @param start Start offset of the range
+ * @param end End offset of the range
+ * @param from Which side the range is on
+ * @returns The matching range on the other side
+ */
+export function mapUnescapeRange(
+  segments: UnescapeSegment[],
+  start: number,
+  end: number,
+  from: 'input' | 'output',
+): { start: number, end: number } {
+  const to = from === 'input' ? 'output' : 'input'
+
+  // The range of the other side produced by the character at an offset
+  const locate = (offset: number): { start: number, end: number } => {
+    let low = 0
+    let high = segments.length - 1
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      const segment = segments[middle]
+      if (offset < segment[`${from}Start`]) {
+        high = middle - 1
+      }
+      else if (offset >= segment[`${from}End`]) {
+        low = middle + 1
+      }
+      else if (segment.kind === 'text') {
+        const mapped = segment[`${to}Start`] + offset - segment[`${from}Start`]
+        return { start: mapped, end: mapped + 1 }
+      }
+      else {
+        return { start: segment[`${to}Start`], end: segment[`${to}End`] }
+      }
+    }
+
+    // Past the end, or inside an escape that produced nothing
+    const next = segments[low]
+    const boundary = next ? next[`${to}Start`] : segments[segments.length - 1]?.[`${to}End`] ?? 0
+    return { start: boundary, end: boundary }
+  }
+
+  if (start === end) {
+    return locate(start)
+  }
+  return { start: locate(start).start, end: locate(end - 1).end }
+}
+
+/**
+ * Unescape a string by converting escape sequences to their actual characters.
+ * Malformed escape sequences are left untouched.
+ *
+ * @param text The escaped text
+ * @param dialectId The escape sequence grammar to use
+ */
+export function unescape(text: string, dialectId: DialectId = 'generic'): string {
+  return unescapeDetailed(text, dialectId).text
+}
+
+/**
+ * Result of removing several layers of escaping
+ */
+export interface LayeredUnescapeResult extends UnescapeResult {
+  /** Number of layers that were removed */
+  depth: number
+}
+
 /**
- * Unescape a string by converting escape sequences to their actual characters
- */
-export function unescape(text: string): string {
-  const escapeMap: Record<string, string> = {
-    'n': '\n',
-    't': '\t',
-    'r': '\r',
-    'b': '\b',
-    'f': '\f',
-    'v': '\v',
-    '\\': '\\',
-    '"': '"',
-    '\'': '\'',
-    '0': '\0',
-  }
-
-  return text.replace(
-    /\\(u[\da-fA-F]{4}|x[\da-fA-F]{2}|[nrtbfv\\'"0])/g,
-    (match, captured: string) => {
-      // Handle Unicode escape: \uXXXX
-      if (captured.startsWith('u')) {
-        const codePoint = Number.parseInt(captured.slice(1), 16)
-        return String.fromCharCode(codePoint)
-      }
-
-      // Handle hex escape: \xXX
-      if (captured.startsWith('x')) {
-        const codePoint = Number.parseInt(captured.slice(1), 16)
-        return String.fromCharCode(codePoint)
-      }
-
-      // Handle simple escape sequences
-      return escapeMap[captured] ?? match
-    },
-  )
+ * Unescape repeatedly, for text that has been escaped several times.
+ * Stops when the text no longer changes, when `done` accepts it, or after
+ * `maxDepth` layers. Issues are reported for the first layer only, so their
+ * offsets refer to the input.
+ *
+ * @param text The escaped text
+ * @param dialectId The escape sequence grammar to use
+ * @param options Layer limits
+ * @param options.maxDepth Maximum number of layers to remove
+ * @param options.done Checked after each layer; stops once it returns true
+ */
+export function unescapeLayers(
+  text: string,
+  dialectId: DialectId = 'generic',
+  options: { maxDepth: number, done?: (text: string) => boolean },
+): LayeredUnescapeResult {
+  const { maxDepth, done } = options
+
+  let current = text
+  let depth = 0
+  let issues: UnescapeIssue[] = []
+
+  while (depth < maxDepth && !(depth > 0 && done?.(current))) {
+    const layer = unescapeDetailed(current, dialectId)
+    if (depth === 0) {
+      issues = layer.issues
+    }
+    if (layer.text === current) {
+      break
+    }
+    current = layer.text
+    depth++
+  }
+
+  return { text: current, issues, depth }
+}
+
+/**
+ * Remove the indentation of a literal body that is not part of its value
+ *
+ * - `common`: the whitespace common to all non-blank lines and to a blank
+ *   last line (the closing delimiter line), along with trailing whitespace
+ * - `tabs`: all leading tabs
+ */
+function stripIndent(text: string, mode: 'common' | 'tabs'): string {
+  const lines = text.split('\n')
+  if (mode === 'tabs') {
+    return lines.map(line => line.replace(/^\t+/, '')).join('\n')
+  }
+
+  const indents = lines
+    .filter((line, index) => line.trim() !== '' || index === lines.length - 1)
+    .map(line => line.match(/^[ \t]*/)![0].length)
+  const common = Math.min(...indents)
+
+  return lines.map(line => line.slice(common).replace(/[ \t]+(?=\r?$)/, '')).join('\n')
+}
+
+/**
+ * Check if a quote style is raw, i.e. its body has no escape sequences
+ */
+export function isRawQuoteStyle(quoteStyle: QuoteStyle): boolean {
+  return !quoteStyle.supportsEscape || !!quoteStyle.prefixDisablesEscape
+}
+
+/**
+ * Unescape the body of a string literal according to its quote style.
+ * Raw styles keep backslashes as-is.
+ */
+export function unescapeForQuoteStyle(text: string, quoteStyle: QuoteStyle, dialectId: DialectId = 'generic'): string {
+  const body = quoteStyle.stripIndent ? stripIndent(text, quoteStyle.stripIndent) : text
+
+  if (!isRawQuoteStyle(quoteStyle)) {
+    return unescape(body, dialectId)
+  }
+
+  // C# verbatim strings escape a double quote by doubling it
+  if (quoteStyle.prefix?.includes('@')) {
+    return body.replace(/""/g, '"')
+  }
+
+  return body
+}
+
+/**
+ * Unescape the body of a string literal according to its quote style, with
+ * the mapping between output and input offsets. Raw styles keep backslashes
+ * as-is, and indentation is kept so that offsets map to the body as written.
+ */
+export function unescapeDetailedForQuoteStyle(text: string, quoteStyle: QuoteStyle, dialectId: DialectId = 'generic'): UnescapeResult {
+  if (!isRawQuoteStyle(quoteStyle)) {
+    return unescapeDetailed(text, dialectId, { mapping: true })
+  }
+
+  // C# verbatim strings escape a double quote by doubling it
+  const parts = quoteStyle.prefix?.includes('@') ? text.split('""') : [text]
+  const segments: UnescapeSegment[] = []
+  let inputStart = 0
+  let outputStart = 0
+  parts.forEach((part, index) => {
+    if (index > 0) {
+      segments.push({ kind: 'escape', inputStart, inputEnd: inputStart + 2, outputStart, outputEnd: outputStart + 1 })
+      inputStart += 2
+      outputStart += 1
+    }
+    if (part) {
+      segments.push({ kind: 'text', inputStart, inputEnd: inputStart + part.length, outputStart, outputEnd: outputStart + part.length })
+      inputStart += part.length
+      outputStart += part.length
+    }
+  })
+  return { text: parts.join('"'), issues: [], segments }
 }
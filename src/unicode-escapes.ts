@@ -0,0 +1,92 @@
+import type { DialectId } from './dialects'
+import { classifyCharacter } from './invisibles'
+import { unescapeDetailed } from './unescape'
+
+/**
+ * Characters that would change the meaning of the text if they were written
+ * as is: quotes and backslashes end literals or start escapes, `$` starts
+ * template placeholders and the others are regular expression syntax
+ */
+const SYNTAX_CHARACTERS = ['"', '\'', '`', '\\', '$', '.', '*', '+', '?', '^', '|', '(', ')', '[', ']', '{', '}', '/', '-']
+
+/**
+ * Format a number as lowercase hexadecimal digits
+ */
+function hex(value: number, width: number): string {
+  return value.toString(16).padStart(width, '0')
+}
+
+/**
+ * Write a code point as the Unicode escape sequence of a dialect. Code
+ * points beyond U+FFFF are written as `\u{...}` in JavaScript, `\U........`
+ * where the dialect has it, and as a UTF-16 surrogate pair elsewhere, like
+ * Java and JSON.
+ */
+function toUnicodeEscape(codePoint: number, dialect: DialectId): string {
+  if (dialect === 'rust') {
+    return `\\u{${hex(codePoint, 1)}}`
+  }
+  if (codePoint <= 0xFFFF) {
+    return `\\u${hex(codePoint, 4)}`
+  }
+
+  switch (dialect) {
+    case 'javascript':
+      return `\\u{${hex(codePoint, 1)}}`
+    case 'python':
+    case 'c':
+    case 'go':
+    case 'shell':
+      return `\\U${hex(codePoint, 8)}`
+    default: {
+      const offset = codePoint - 0x10000
+      return `\\u${hex(0xD800 + (offset >> 10), 4)}\\u${hex(0xDC00 + (offset & 0x3FF), 4)}`
+    }
+  }
+}
+
+/**
+ * Replace every non-ASCII character with a Unicode escape sequence, like
+ * `native2ascii`
+ *
+ * @param text The text to convert
+ * @param dialect The escape sequence grammar of the text
+ */
+export function escapeNonAscii(text: string, dialect: DialectId = 'generic'): string {
+  // Iterate by code point, so that astral characters are escaped whole
+  return Array.from(text, char => char.charCodeAt(0) < 0x80 ? char : toUnicodeEscape(char.codePointAt(0)!, dialect))
+    .join('')
+}
+
+/**
+ * Check if the decoded value of an escape is better kept escaped: control,
+ * invisible and bidi characters, and characters with a meaning in literals
+ */
+function keepsEscaped(value: string): boolean {
+  return Array.from(value).some((char) => {
+    const codePoint = char.codePointAt(0)!
+    return codePoint < 0x20 || SYNTAX_CHARACTERS.includes(char) || classifyCharacter(codePoint) !== null
+  })
+}
+
+/**
+ * Replace the Unicode and hexadecimal escape sequences of a text with the
+ * characters they stand for, like `native2ascii -reverse`. Other escapes
+ * such as `\n` are left alone, as are malformed sequences and sequences of
+ * characters that are invisible or would change the syntax of a literal.
+ *
+ * @param text The text to convert
+ * @param dialect The escape sequence grammar of the text
+ */
+export function unescapeUnicode(text: string, dialect: DialectId = 'generic'): string {
+  const { text: decoded, issues, segments } = unescapeDetailed(text, dialect, { mapping: true, categories: ['unicode', 'hex'] })
+  const isMalformed = (start: number, end: number): boolean =>
+    issues.some(({ offset, length }) => offset < end && offset + length > start)
+
+  return segments!.map(({ kind, inputStart, inputEnd, outputStart, outputEnd }) => {
+    const value = decoded.slice(outputStart, outputEnd)
+    return kind === 'escape' && !isMalformed(inputStart, inputEnd) && !keepsEscaped(value)
+      ? value
+      : text.slice(inputStart, inputEnd)
+  }).join('')
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { parseClipboardText } from '../src/clipboard'
+
+describe('parseClipboardText', () => {
+  it('should take the body of a string literal copied whole', () => {
+    expect(parseClipboardText('"a\\nb"')).toMatchObject({ text: 'a\\nb', dialect: 'generic', quoteStyle: { open: '"' } })
+    expect(parseClipboardText('`it\'s`').text).toBe('it\'s')
+    expect(parseClipboardText('$\'a\\tb\'')).toMatchObject({ text: 'a\\tb', dialect: 'shell' })
+  })
+
+  it('should keep the quote style of raw literals', () => {
+    expect(parseClipboardText('r"\\d+"')).toMatchObject({ text: '\\d+', quoteStyle: { prefix: 'r', prefixDisablesEscape: true } })
+  })
+
+  it('should keep other text exactly as it is', () => {
+    expect(parseClipboardText('  a\\tb\n')).toEqual({ text: '  a\\tb\n', dialect: 'generic' })
+    expect(parseClipboardText(' "a" ')).toEqual({ text: ' "a" ', dialect: 'generic' })
+    expect(parseClipboardText('"a" + "b"')).toEqual({ text: '"a" + "b"', dialect: 'generic' })
+    expect(parseClipboardText('"a\\"')).toEqual({ text: '"a\\"', dialect: 'generic' })
+  })
+})
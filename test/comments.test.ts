@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { findComments, isInComment } from '../src/services/comments'
+import { extractLiteralsFromText } from '../src/services/string-extractor'
+
+/**
+ * Get the text of the comments of a text
+ */
+function comments(text: string, languageId: string): string[] {
+  return findComments(text, languageId, extractLiteralsFromText(text, languageId)).map(({ start, end }) => text.slice(start, end))
+}
+
+describe('findComments', () => {
+  it('should find line and block comments', () => {
+    expect(comments('a = 1 // don\'t use "\\q"\r\nb = /* "x" */ 2', 'typescript')).toEqual(['// don\'t use "\\q"', '/* "x" */'])
+    expect(comments('x = "a" # note "\\q"\n', 'python')).toEqual(['# note "\\q"'])
+    expect(comments('/* open', 'c')).toEqual(['/* open'])
+  })
+
+  it('should skip delimiters inside string literals', () => {
+    expect(comments('url = "http://host/#a" // real', 'javascript')).toEqual(['// real'])
+    expect(comments('s = "#" # real', 'python')).toEqual(['# real'])
+  })
+
+  it('should only start shell comments at the start of a word', () => {
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(comments('echo ${#list} $# a#b # real', 'shellscript')).toEqual(['# real'])
+  })
+
+  it('should read long delimiters first', () => {
+    expect(comments('--[[ "a"\n"b" ]] x = 1 -- c', 'lua')).toEqual(['--[[ "a"\n"b" ]]', '-- c'])
+  })
+
+  it('should find no comments in languages without known comments', () => {
+    expect(comments('{"a": "// b"} // c', 'json')).toEqual([])
+  })
+})
+
+describe('isInComment', () => {
+  it('should check offsets against the comment ranges', () => {
+    const ranges = [{ start: 2, end: 5 }, { start: 10, end: 12 }]
+    expect([0, 2, 4, 5, 11, 12].map(offset => isInComment(ranges, offset))).toEqual([false, true, true, false, true, false])
+  })
+})
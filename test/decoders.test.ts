@@ -0,0 +1,99 @@
+import type { DecoderId } from '../src/decoders'
+import { describe, expect, it } from 'vitest'
+import { DECODERS } from '../src/decoders'
+
+const SAMPLES = [
+  '',
+  'hello world',
+  'line 1\nline 2\r\n\ttabbed',
+  '{"a": "b & c", "d": \'<e>\'}',
+  'naïve café — 日本語 😀',
+  'a=b&c=d?e+f%g#h/i',
+  '\\ backslash \\n and "quotes"',
+  'x'.repeat(200),
+]
+
+describe('decoders', () => {
+  describe.each(Object.keys(DECODERS) as DecoderId[])('%s', (id) => {
+    const decoder = DECODERS[id]
+
+    it.each(SAMPLES)('should round-trip %j', (text) => {
+      expect(decoder.decode(decoder.encode(text))).toBe(text)
+    })
+  })
+
+  describe('backslash', () => {
+    it('should decode with the given dialect', () => {
+      expect(DECODERS.backslash.decode('\\u{1F600}\\n', 'javascript')).toBe('😀\n')
+      expect(DECODERS.backslash.decode('\\u{1F600}', 'json')).toBe('\\u{1F600}')
+    })
+  })
+
+  describe('url', () => {
+    it('should decode percent-encoding and form spaces', () => {
+      expect(DECODERS.url.decode('a%20b+c%E2%9C%93')).toBe('a b c✓')
+    })
+
+    it('should reject malformed percent-encoding', () => {
+      expect(DECODERS.url.decode('100%')).toBeNull()
+      expect(DECODERS.url.decode('%E2%9C')).toBeNull()
+    })
+  })
+
+  describe('html', () => {
+    it('should decode named and numeric entities', () => {
+      expect(DECODERS.html.decode('&lt;p&gt;&amp;&quot;&#39;&#x1F600;&hellip;')).toBe('<p>&"\'😀…')
+    })
+
+    it('should keep unknown entities', () => {
+      expect(DECODERS.html.decode('&unknown; & &#x110000;')).toBe('&unknown; & &#x110000;')
+    })
+  })
+
+  describe('base64', () => {
+    it('should decode with or without padding and whitespace', () => {
+      expect(DECODERS.base64.decode('aGVsbG8=')).toBe('hello')
+      expect(DECODERS.base64.decode('aGVs\nbG8')).toBe('hello')
+    })
+
+    it('should reject other alphabets and binary data', () => {
+      expect(DECODERS.base64.decode('a-b_')).toBeNull()
+      expect(DECODERS.base64.decode('/w==')).toBeNull()
+      expect(DECODERS.base64.decode('abcde')).toBeNull()
+    })
+  })
+
+  describe('base64url', () => {
+    it('should decode the URL-safe alphabet', () => {
+      expect(DECODERS.base64url.decode('Pz8_')).toBe('???')
+      expect(DECODERS.base64url.decode('Pz8/')).toBeNull()
+    })
+  })
+
+  describe('hex', () => {
+    it('should decode bytes with a prefix or separators', () => {
+      expect(DECODERS.hex.decode('0x68656c6c6f')).toBe('hello')
+      expect(DECODERS.hex.decode('e2:9c:93')).toBe('✓')
+    })
+
+    it('should reject odd digit counts and invalid UTF-8', () => {
+      expect(DECODERS.hex.decode('abc')).toBeNull()
+      expect(DECODERS.hex.decode('ff')).toBeNull()
+    })
+  })
+
+  describe('quoted-printable', () => {
+    it('should decode byte escapes and soft line breaks', () => {
+      expect(DECODERS['quoted-printable'].decode('caf=C3=A9 =\r\nbar=3D')).toBe('café bar=')
+    })
+
+    it('should wrap long lines', () => {
+      const encoded = DECODERS['quoted-printable'].encode('é'.repeat(40))
+      expect(encoded.split('\n').every(line => line.length <= 76)).toBe(true)
+    })
+
+    it('should reject malformed escapes', () => {
+      expect(DECODERS['quoted-printable'].decode('a=G1')).toBeNull()
+    })
+  })
+})
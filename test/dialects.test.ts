@@ -0,0 +1,197 @@
+import type { QuoteStyle } from '../src/services/string-extractor'
+import { describe, expect, it } from 'vitest'
+import { detectDialect } from '../src/dialects'
+import { unescape, unescapeDetailed } from '../src/unescape'
+
+describe('dialects', () => {
+  describe('generic', () => {
+    it('should decode the common escapes', () => {
+      expect(unescape('a\\nb\\tc\\\\d\\"e\\\'f\\0')).toBe('a\nb\tc\\d"e\'f\0')
+    })
+
+    it('should decode \\u and \\x escapes', () => {
+      expect(unescape('\\u0048\\x69')).toBe('Hi')
+    })
+
+    it('should leave unknown escapes untouched', () => {
+      expect(unescape('\\q \\u12 \\x4')).toBe('\\q \\u12 \\x4')
+    })
+  })
+
+  describe('javascript', () => {
+    it('should decode code point escapes', () => {
+      expect(unescape('\\u{1F600} \\u{48}', 'javascript')).toBe('😀 H')
+    })
+
+    it('should decode \\0 only when not followed by a digit', () => {
+      expect(unescape('a\\0b', 'javascript')).toBe('a\0b')
+      expect(unescape('\\01', 'javascript')).toBe('\\01')
+    })
+
+    it('should decode template escapes and line continuations', () => {
+      // eslint-disable-next-line no-template-curly-in-string
+      expect(unescape('\\`\\${x}\\\nnext', 'javascript')).toBe('`${x}next')
+    })
+
+    it('should reject code points out of range', () => {
+      expect(unescape('\\u{110000}', 'javascript')).toBe('\\u{110000}')
+    })
+  })
+
+  describe('json', () => {
+    it('should decode the JSON escapes', () => {
+      expect(unescape('\\"\\\\\\/\\b\\f\\n\\r\\t\\u0041', 'json')).toBe('"\\/\b\f\n\r\tA')
+    })
+
+    it('should not decode escapes that are invalid in JSON', () => {
+      expect(unescape('\\x41 \\v \\\' \\0', 'json')).toBe('\\x41 \\v \\\' \\0')
+    })
+  })
+
+  describe('java', () => {
+    it('should decode octal and \\s escapes', () => {
+      expect(unescape('\\101\\7\\s\\377', 'java')).toBe('A\x07 \xFF')
+    })
+
+    it('should decode \\u with repeated u', () => {
+      expect(unescape('\\uu0041', 'java')).toBe('A')
+    })
+
+    it('should not decode \\x or \\v', () => {
+      expect(unescape('\\x41\\v', 'java')).toBe('\\x41\\v')
+    })
+  })
+
+  describe('python', () => {
+    it('should decode \\U escapes', () => {
+      expect(unescape('\\U0001F600', 'python')).toBe('😀')
+    })
+
+    it('should decode named escapes', () => {
+      expect(unescape('\\N{BULLET} \\N{em dash}', 'python')).toBe('• —')
+    })
+
+    it('should leave unknown names untouched', () => {
+      expect(unescape('\\N{NOT A NAME}', 'python')).toBe('\\N{NOT A NAME}')
+    })
+
+    it('should decode octal escapes', () => {
+      expect(unescape('\\101\\60\\0', 'python')).toBe('A0\0')
+    })
+
+    it('should decode \\a and line continuations', () => {
+      expect(unescape('\\a\\\nb', 'python')).toBe('\x07b')
+    })
+  })
+
+  describe('c', () => {
+    it('should decode octal and variable length hex escapes', () => {
+      expect(unescape('\\101\\x41\\x041', 'c')).toBe('AAA')
+    })
+
+    it('should decode byte escapes as UTF-8', () => {
+      expect(unescape('\\xe4\\xbd\\xa0\\345\\245\\275', 'c')).toBe('你好')
+    })
+
+    it('should fall back to one character per byte for invalid UTF-8', () => {
+      expect(unescape('\\xff\\xfe', 'c')).toBe('\xFF\xFE')
+    })
+
+    it('should decode \\a, \\e and \\?', () => {
+      expect(unescape('\\a\\e\\?', 'c')).toBe('\x07\x1B?')
+    })
+  })
+
+  describe('go', () => {
+    it('should decode \\a, \\v and \\U', () => {
+      expect(unescape('\\a\\v\\U0001F600', 'go')).toBe('\x07\v😀')
+    })
+
+    it('should decode three digit octal and two digit hex bytes as UTF-8', () => {
+      expect(unescape('\\344\\275\\240\\xe5\\xa5\\xbd', 'go')).toBe('你好')
+    })
+
+    it('should not decode short octal escapes', () => {
+      expect(unescape('\\0', 'go')).toBe('\\0')
+    })
+  })
+
+  describe('rust', () => {
+    it('should decode \\u{..} escapes', () => {
+      expect(unescape('\\u{1F600}\\u{41}', 'rust')).toBe('😀A')
+    })
+
+    it('should only decode ASCII \\x escapes', () => {
+      expect(unescape('\\x41\\x7F\\xFF', 'rust')).toBe('A\x7F\\xFF')
+    })
+
+    it('should not decode \\uXXXX or \\v', () => {
+      expect(unescape('\\u0041\\v', 'rust')).toBe('\\u0041\\v')
+    })
+
+    it('should skip the indentation after a line continuation', () => {
+      expect(unescape('a\\\n    b', 'rust')).toBe('ab')
+    })
+  })
+
+  describe('shell', () => {
+    it('should decode ANSI-C escapes', () => {
+      expect(unescape('\\e[0m\\E\\a\\?', 'shell')).toBe('\x1B[0m\x1B\x07?')
+    })
+
+    it('should decode control character escapes', () => {
+      expect(unescape('\\cA\\cz', 'shell')).toBe('\x01\x1A')
+    })
+
+    it('should decode short hex, octal and unicode escapes', () => {
+      expect(unescape('\\x4\\101\\u41\\U1F600', 'shell')).toBe('\x04AA😀')
+    })
+  })
+
+  describe('shell-double', () => {
+    it('should only decode escapes of characters that end or expand the string', () => {
+      expect(unescape('\\"\\\\\\`\\$HOME', 'shell-double')).toBe('"\\`$HOME')
+      expect(unescape('\\n\\t\\e\\x41', 'shell-double')).toBe('\\n\\t\\e\\x41')
+    })
+
+    it('should not report other backslashes', () => {
+      expect(unescapeDetailed('a\\nb\\q', 'shell-double').issues).toEqual([])
+    })
+
+    it('should remove line continuations', () => {
+      expect(unescape('a\\\nb', 'shell-double')).toBe('ab')
+    })
+  })
+
+  describe('single-quoted', () => {
+    it('should only decode escaped quotes and backslashes', () => {
+      expect(unescape('it\\\'s C:\\\\dir\\n', 'single-quoted')).toBe('it\'s C:\\dir\\n')
+      expect(unescapeDetailed('\\n\\t', 'single-quoted').issues).toEqual([])
+    })
+  })
+})
+
+describe('detectDialect', () => {
+  const plain: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false }
+
+  it('should detect from the language id', () => {
+    expect(detectDialect('typescript')).toBe('javascript')
+    expect(detectDialect('jsonc')).toBe('json')
+    expect(detectDialect('cpp')).toBe('c')
+    expect(detectDialect('rust', plain)).toBe('rust')
+  })
+
+  it('should fall back to generic', () => {
+    expect(detectDialect('plaintext')).toBe('generic')
+  })
+
+  it('should detect from the quote style prefix', () => {
+    expect(detectDialect('shellscript', { ...plain, open: '\'', close: '\'', prefix: '$' })).toBe('shell')
+    expect(detectDialect('shellscript', plain)).toBe('shell-double')
+    expect(detectDialect('shellscript')).toBe('generic')
+    expect(detectDialect('php', { ...plain, open: '\'', close: '\'' })).toBe('single-quoted')
+    expect(detectDialect('ruby', { ...plain, open: '\'', close: '\'', multiLine: true })).toBe('single-quoted')
+    expect(detectDialect('ruby', plain)).toBe('generic')
+    expect(detectDialect('plaintext', { ...plain, prefix: 'b' })).toBe('python')
+  })
+})
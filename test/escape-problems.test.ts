@@ -0,0 +1,76 @@
+import type { QuoteStyle } from '../src/services/string-extractor'
+import { describe, expect, it } from 'vitest'
+import { findEscapeProblems } from '../src/escape-problems'
+
+const double: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false }
+const template: QuoteStyle = { open: '`', close: '`', supportsEscape: true, multiLine: true }
+
+describe('findEscapeProblems', () => {
+  it('should replace escapes of other languages with a valid form', () => {
+    expect(findEscapeProblems('a\\x41', double, 'json')).toEqual([
+      {
+        kind: 'unknown',
+        offset: 1,
+        length: 4,
+        fixes: [{ kind: 'replace', text: 'A' }, { kind: 'escape-backslash', text: '\\\\x41' }],
+      },
+    ])
+  })
+
+  it('should offer to drop or escape the backslash of unknown escapes', () => {
+    expect(findEscapeProblems('\\q', double, 'javascript')).toEqual([
+      {
+        kind: 'unknown',
+        offset: 0,
+        length: 2,
+        fixes: [{ kind: 'remove-backslash', text: 'q' }, { kind: 'escape-backslash', text: '\\\\q' }],
+      },
+    ])
+  })
+
+  it('should report truncated sequences', () => {
+    expect(findEscapeProblems('\\u12', double, 'json')).toEqual([
+      { kind: 'truncated', offset: 0, length: 4, fixes: [{ kind: 'escape-backslash', text: '\\\\u12' }] },
+    ])
+  })
+
+  it('should only note character names missing from the table', () => {
+    expect(findEscapeProblems('\\N{LATIN SMALL LETTER A}', double, 'python')).toEqual([
+      { kind: 'unresolved', offset: 0, length: 24, fixes: [] },
+    ])
+  })
+
+  it('should offer to replace or remove lone surrogates', () => {
+    const [problem] = findEscapeProblems('x\\uD83Dy', double, 'json')
+    expect(problem).toMatchObject({ kind: 'lone-surrogate', offset: 1, length: 6 })
+    expect(problem.fixes).toEqual([{ kind: 'replace', text: '\uFFFD' }, { kind: 'remove', text: '' }])
+    expect(findEscapeProblems('\\uD83D\\uDE00', double, 'json')).toEqual([])
+  })
+
+  it('should report quotes escaped without need', () => {
+    expect(findEscapeProblems('it\\\'s \\"ok\\"', double, 'python')).toEqual([
+      { kind: 'useless', offset: 2, length: 2, fixes: [{ kind: 'remove-backslash', text: '\'' }] },
+    ])
+    expect(findEscapeProblems('say \\"hi\\"', template, 'javascript').map(problem => problem.offset)).toEqual([4, 8])
+  })
+
+  it('should report control characters written as is', () => {
+    expect(findEscapeProblems('a\tb\0c', double, 'json')).toEqual([
+      { kind: 'control', offset: 1, length: 1, fixes: [{ kind: 'replace', text: '\\t' }] },
+      { kind: 'control', offset: 3, length: 1, fixes: [{ kind: 'replace', text: '\\u0000' }] },
+    ])
+    expect(findEscapeProblems('a\r\nb', double, 'javascript')).toEqual([
+      { kind: 'control', offset: 1, length: 2, fixes: [{ kind: 'replace', text: '\\r\\n' }] },
+    ])
+  })
+
+  it('should allow tabs outside JSON and line breaks in multi-line literals', () => {
+    expect(findEscapeProblems('a\tb', double, 'javascript')).toEqual([])
+    expect(findEscapeProblems('a\r\nb', template, 'javascript')).toEqual([])
+  })
+
+  it('should not report escaped backslashes or raw literals', () => {
+    expect(findEscapeProblems('C:\\\\q\\\\x', double, 'json')).toEqual([])
+    expect(findEscapeProblems('\\q', { ...double, prefix: 'r', prefixDisablesEscape: true }, 'python')).toEqual([])
+  })
+})
@@ -0,0 +1,211 @@
+import type { QuoteStyle } from '../src/services/string-extractor'
+import { describe, expect, it } from 'vitest'
+import { escapeForQuoteStyle, escapeLiteral, restoreIndent } from '../src/escape'
+import { unescape, unescapeForQuoteStyle } from '../src/unescape'
+
+const doubleQuote: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false }
+const singleQuote: QuoteStyle = { open: '\'', close: '\'', supportsEscape: true, multiLine: false }
+const backtick: QuoteStyle = { open: '`', close: '`', supportsEscape: true, multiLine: true }
+const tripleQuote: QuoteStyle = { open: '"""', close: '"""', supportsEscape: true, multiLine: true }
+const pythonRaw: QuoteStyle = { open: '"', close: '"', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true }
+const pythonBytes: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false, prefix: 'b' }
+const csharpVerbatim: QuoteStyle = { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: '@', prefixDisablesEscape: true }
+const rustRaw: QuoteStyle = { open: '"', close: '"', supportsEscape: false, multiLine: true, prefix: 'r#', prefixDisablesEscape: true }
+
+describe('escapeForQuoteStyle', () => {
+  describe('double quotes', () => {
+    it('should escape quotes, backslashes and newlines', () => {
+      expect(escapeForQuoteStyle('say "hi"\\\n', doubleQuote)).toBe('say \\"hi\\"\\\\\\n')
+    })
+
+    it('should not escape the other quote character', () => {
+      expect(escapeForQuoteStyle('it\'s', doubleQuote)).toBe('it\'s')
+    })
+
+    it('should escape control characters', () => {
+      expect(escapeForQuoteStyle('\t\r\b\f\0\x1B', doubleQuote)).toBe('\\t\\r\\b\\f\\u0000\\u001b')
+    })
+
+    it('should keep non-ASCII characters', () => {
+      expect(escapeForQuoteStyle('你好 😀', doubleQuote)).toBe('你好 😀')
+    })
+
+    it('should only write control characters the dialect can read', () => {
+      expect(escapeForQuoteStyle('\t\b\f\v\0', doubleQuote, 'rust')).toBe('\\t\\x08\\x0c\\x0b\\x00')
+      expect(escapeForQuoteStyle('\t\v\x1B1', doubleQuote, 'c')).toBe('\\t\\013\\0331')
+    })
+
+    it('should escape expansions but keep control characters in shell strings', () => {
+      expect(escapeForQuoteStyle('$HOME `pwd`\t"', doubleQuote, 'shell-double')).toBe('\\$HOME \\`pwd\\`\t\\"')
+    })
+  })
+
+  describe('single quotes', () => {
+    it('should escape single quotes only', () => {
+      expect(escapeForQuoteStyle('it\'s "ok"', singleQuote)).toBe('it\\\'s "ok"')
+    })
+  })
+
+  describe('multi-line literals', () => {
+    it('should keep CRLF line breaks and escape lone carriage returns', () => {
+      expect(escapeForQuoteStyle('a\r\nb\rc', tripleQuote)).toBe('a\r\nb\\rc')
+    })
+  })
+
+  describe('template literals', () => {
+    it('should escape backticks and interpolations but keep newlines', () => {
+      // eslint-disable-next-line no-template-curly-in-string
+      expect(escapeForQuoteStyle('`${a}`\n$b', backtick)).toBe('\\`\\${a}\\`\n$b')
+    })
+  })
+
+  describe('triple quotes', () => {
+    it('should only escape quotes that would close the literal', () => {
+      expect(escapeForQuoteStyle('say "hi"\n"""', tripleQuote)).toBe('say "hi"\n\\"\\"\\"')
+    })
+
+    it('should escape a trailing quote that merges with the delimiter', () => {
+      expect(escapeForQuoteStyle('a "b"', tripleQuote)).toBe('a "b\\"')
+    })
+  })
+
+  describe('raw strings', () => {
+    it('should keep backslashes in Python raw strings', () => {
+      expect(escapeForQuoteStyle('C:\\path\\n', pythonRaw)).toBe('C:\\path\\n')
+    })
+
+    it('should reject what Python raw strings cannot hold', () => {
+      expect(escapeForQuoteStyle('a"b', pythonRaw)).toBeNull()
+      expect(escapeForQuoteStyle('a\nb', pythonRaw)).toBeNull()
+      expect(escapeForQuoteStyle('a\\', pythonRaw)).toBeNull()
+    })
+
+    it('should double quotes in C# verbatim strings', () => {
+      expect(escapeForQuoteStyle('say "hi"\n', csharpVerbatim)).toBe('say ""hi""\n')
+    })
+
+    it('should apply the Python rules to every raw prefix', () => {
+      for (const prefix of ['R', 'rb', 'Rb', 'BR', 'fr', 'rF']) {
+        expect(escapeForQuoteStyle('abc\\', { ...pythonRaw, prefix })).toBeNull()
+        expect(escapeForQuoteStyle('abc\\\\', { ...pythonRaw, prefix })).toBe('abc\\\\')
+      }
+      expect(escapeForQuoteStyle('abc\\', { ...pythonRaw, open: '\'\'\'', close: '\'\'\'', multiLine: true, prefix: 'R' })).toBeNull()
+    })
+
+    it('should reject the closing delimiter in Rust raw strings', () => {
+      expect(escapeForQuoteStyle('say "hi"', rustRaw)).toBe('say "hi"')
+      expect(escapeForQuoteStyle('"#', rustRaw)).toBeNull()
+      expect(escapeForQuoteStyle('a"#b', { ...rustRaw, prefix: 'br##' })).toBe('a"#b')
+    })
+
+    it('should allow a trailing backslash in Rust raw strings', () => {
+      expect(escapeForQuoteStyle('abc\\', { ...rustRaw, prefix: 'r' })).toBe('abc\\')
+      expect(escapeForQuoteStyle('a"', { ...rustRaw, prefix: 'r' })).toBeNull()
+    })
+  })
+
+  describe('byte strings', () => {
+    it('should escape non-ASCII bytes', () => {
+      expect(escapeForQuoteStyle('caf\xE9', pythonBytes)).toBe('caf\\xe9')
+    })
+
+    it('should reject characters outside of a byte', () => {
+      expect(escapeForQuoteStyle('你', pythonBytes)).toBeNull()
+    })
+  })
+
+  describe('round trip', () => {
+    const samples = [
+      'plain text',
+      'line 1\nline 2\r\n\tindented',
+      'quotes: " \' ` and """ and trailing "',
+      'backslashes: \\ \\n \\\\',
+      // eslint-disable-next-line no-template-curly-in-string
+      'template ${value} and $other',
+      'controls: \0\x01\b\f\v\x7F',
+      'unicode: 你好 😀',
+    ]
+
+    for (const quoteStyle of [doubleQuote, singleQuote, backtick, tripleQuote, csharpVerbatim]) {
+      it(`should round trip through ${quoteStyle.prefix ?? ''}${quoteStyle.open}`, () => {
+        for (const sample of samples) {
+          const escaped = escapeForQuoteStyle(sample, quoteStyle)
+          expect(escaped).not.toBeNull()
+          expect(unescapeForQuoteStyle(escaped!, quoteStyle)).toBe(sample)
+        }
+      })
+    }
+  })
+})
+
+describe('restoreIndent', () => {
+  const textBlock: QuoteStyle = { open: '"""', close: '"""', supportsEscape: true, multiLine: true, stripIndent: 'common' }
+  const hereDocument: QuoteStyle = { open: 'EOF', close: 'EOF', supportsEscape: false, multiLine: true, prefix: '<<-', prefixDisablesEscape: true, stripIndent: 'tabs' }
+
+  it('should indent text block lines like the original body', () => {
+    const original = '        <p>\n          hi\n        </p>\n        '
+    const value = unescapeForQuoteStyle(original, textBlock, 'java')
+    expect(value).toBe('<p>\n  hi\n</p>\n')
+
+    const body = restoreIndent(escapeForQuoteStyle('<p>\n\n  bye\n</p>\n', textBlock)!, original, textBlock)
+    expect(body).toBe('        <p>\n\n          bye\n        </p>\n        ')
+    expect(unescapeForQuoteStyle(body, textBlock, 'java')).toBe('<p>\n\n  bye\n</p>\n')
+  })
+
+  it('should write back a CRLF literal as it was', () => {
+    const original = '        a\r\n        b\r\n        '
+    const value = unescapeForQuoteStyle(original, textBlock, 'java')
+    const body = restoreIndent(escapeForQuoteStyle(value, textBlock, 'java')!, original, textBlock)
+    expect(body).toBe(original)
+  })
+
+  it('should add back leading tabs to here-document lines', () => {
+    expect(restoreIndent('a\n  b\n', '\t\tx\n\t\t  y\n', hereDocument)).toBe('\t\ta\n\t\t  b\n')
+  })
+
+  it('should leave other literals alone', () => {
+    expect(restoreIndent('a\nb', '  x\n  y', tripleQuote)).toBe('a\nb')
+  })
+})
+
+describe('escapeLiteral', () => {
+  it('should produce minimal JSON that round trips through unescape', () => {
+    const samples = ['plain', 'say "hi"\n', 'tab\tback\\slash', 'ctrl \0\x1F\x7F', 'emoji 😀 / slash', 'lone \uD800']
+
+    for (const sample of samples) {
+      const { open, body, close } = escapeLiteral(sample, 'json')
+      expect(JSON.parse(`${open}${body}${close}`)).toBe(sample)
+      expect(unescape(body)).toBe(sample)
+    }
+
+    expect(escapeLiteral('a/b é\x7F', 'json').body).toBe('a/b é\x7F')
+  })
+
+  it('should wrap single quotes', () => {
+    expect(escapeLiteral('it\'s', 'single')).toEqual({ open: '\'', body: 'it\\\'s', close: '\'' })
+  })
+
+  it('should escape template literals', () => {
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(escapeLiteral('`${x}`\n', 'template').body).toBe('\\`\\${x}\\`\n')
+  })
+
+  it('should escape Python and Go strings', () => {
+    expect(escapeLiteral('a "b"\n', 'python').body).toBe('a \\"b\\"\\n')
+    expect(escapeLiteral('a "b"\n', 'go').body).toBe('a \\"b\\"\\n')
+  })
+
+  describe('rust raw strings', () => {
+    it('should not use # when there is no quote', () => {
+      expect(escapeLiteral('C:\\path', 'rust-raw')).toEqual({ open: 'r"', body: 'C:\\path', close: '"' })
+    })
+
+    it('should use one # for a plain quote', () => {
+      expect(escapeLiteral('say "hi"', 'rust-raw')).toEqual({ open: 'r#"', body: 'say "hi"', close: '"#' })
+    })
+
+    it('should use more # than any quote followed by #', () => {
+      expect(escapeLiteral('a "# b "## c', 'rust-raw')).toEqual({ open: 'r###"', body: 'a "# b "## c', close: '"###' })
+    })
+  })
+})
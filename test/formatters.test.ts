@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest'
+import { detectFormatter, FORMATTERS } from '../src/formatters'
+
+describe('formatters', () => {
+  describe('detectFormatter', () => {
+    it.each([
+      ['{"a":1}', 'json'],
+      ['<!DOCTYPE html><html><body></body></html>', 'html'],
+      ['<div class="a"><p>hi</p></div>', 'html'],
+      ['<?xml version="1.0"?><a/>', 'xml'],
+      ['<soap:Envelope><soap:Body/></soap:Envelope>', 'xml'],
+      ['query { user(id: 1) { name } }', 'graphql'],
+      ['{ viewer { login } }', 'graphql'],
+      ['java.lang.IllegalStateException: boom\n\tat a.B.c(B.java:1)\n\tat a.B.d(B.java:2)', 'stack-trace'],
+      ['Traceback (most recent call last):\n  File "a.py", line 1, in <module>\nValueError', 'stack-trace'],
+      ['SELECT a FROM t', 'sql'],
+      ['update t set a = 1', 'sql'],
+      ['select * from users u where u.id = 1', 'sql'],
+      ['SELECT id FROM (SELECT 1 AS id) s', 'sql'],
+      ['insert into "app"."users" (name) values (\'a\')', 'sql'],
+      ['DELETE FROM t;', 'sql'],
+      ['name: app\nversion: 1\nitems:\n  - a', 'yaml'],
+    ])('should detect %j as %s', (text, id) => {
+      expect(detectFormatter(text)?.id).toBe(id)
+    })
+
+    it.each([
+      'hello world',
+      'Select a file from the list',
+      'Update the record',
+      'select a file to open',
+      'select a file from the list',
+      'delete from the list',
+      'update the record and set it aside',
+      'a < b',
+      '<x><y></x>',
+      'just one line: with a colon',
+    ])('should not detect plain text %j', (text) => {
+      expect(detectFormatter(text)).toBeNull()
+    })
+  })
+
+  describe('json', () => {
+    it('should format objects and arrays only', () => {
+      expect(FORMATTERS.json.format('[1,{"a":2}]')).toBe('[\n  1,\n  {\n    "a": 2\n  }\n]')
+      expect(FORMATTERS.json.format('"text"')).toBeNull()
+    })
+  })
+
+  describe('xml', () => {
+    it('should indent nested elements and keep short text inline', () => {
+      expect(FORMATTERS.xml.format('<?xml version="1.0"?><a x="1>2"><b>text</b><c/><d></d><!-- note --></a>')).toBe([
+        '<?xml version="1.0"?>',
+        '<a x="1>2">',
+        '  <b>text</b>',
+        '  <c/>',
+        '  <d></d>',
+        '  <!-- note -->',
+        '</a>',
+      ].join('\n'))
+    })
+
+    it('should keep CDATA and reject mismatched tags', () => {
+      expect(FORMATTERS.xml.format('<a><![CDATA[<x>]]></a>')).toBe('<a>\n  <![CDATA[<x>]]>\n</a>')
+      expect(FORMATTERS.xml.format('<a><b></a></b>')).toBeNull()
+      expect(FORMATTERS.xml.format('<a>')).toBeNull()
+    })
+  })
+
+  describe('html', () => {
+    it('should handle void elements, optional closing tags and raw text', () => {
+      expect(FORMATTERS.html.format('<ul><li>one<li>two</ul><br><script>if (a < b) {}</script>')).toBe([
+        '<ul>',
+        '  <li>',
+        '    one',
+        '  <li>',
+        '    two',
+        '</ul>',
+        '<br>',
+        '<script>if (a < b) {}</script>',
+      ].join('\n'))
+    })
+  })
+
+  describe('sql', () => {
+    it('should put clauses on their own lines', () => {
+      expect(FORMATTERS.sql.format('select a, count(*) as n from t left join u on t.id = u.id where x between 1 and 2 and y = \'a, b\' group by a order by n desc limit 10')).toBe([
+        'SELECT',
+        '  a,',
+        '  count(*) AS n',
+        'FROM t',
+        'LEFT JOIN u ON t.id = u.id',
+        'WHERE x BETWEEN 1 AND 2',
+        '  AND y = \'a, b\'',
+        'GROUP BY',
+        '  a',
+        'ORDER BY',
+        '  n DESC',
+        'LIMIT 10',
+      ].join('\n'))
+    })
+
+    it('should indent subqueries and separate statements', () => {
+      expect(FORMATTERS.sql.format('SELECT * FROM (SELECT id FROM t WHERE a IN (1, 2)) s; DELETE FROM t')).toBe([
+        'SELECT',
+        '  *',
+        'FROM (',
+        '  SELECT',
+        '    id',
+        '  FROM t',
+        '  WHERE a IN (1, 2)',
+        ') s;',
+        '',
+        'DELETE FROM t',
+      ].join('\n'))
+    })
+
+    it('should reject unterminated strings', () => {
+      expect(FORMATTERS.sql.format('SELECT \'a')).toBeNull()
+    })
+  })
+
+  describe('graphql', () => {
+    it('should put fields on their own lines and keep arguments inline', () => {
+      expect(FORMATTERS.graphql.format('query Q($id: ID!, $n: Int = 1) { user(id: $id) { name, ...F friends(first: $n) @include(if: true) { id } } }')).toBe([
+        'query Q($id: ID!, $n: Int = 1) {',
+        '  user(id: $id) {',
+        '    name',
+        '    ...F',
+        '    friends(first: $n) @include(if: true) {',
+        '      id',
+        '    }',
+        '  }',
+        '}',
+      ].join('\n'))
+    })
+
+    it('should handle aliases, inline fragments and several definitions', () => {
+      expect(FORMATTERS.graphql.format('{ me: viewer { ... on User { id } } } fragment F on User { id }')).toBe([
+        '{',
+        '  me: viewer {',
+        '    ... on User {',
+        '      id',
+        '    }',
+        '  }',
+        '}',
+        '',
+        'fragment F on User {',
+        '  id',
+        '}',
+      ].join('\n'))
+    })
+
+    it('should reject unbalanced braces', () => {
+      expect(FORMATTERS.graphql.format('{ a { b }')).toBeNull()
+    })
+  })
+
+  describe('stack-trace', () => {
+    it('should split a Java stack trace joined into one line', () => {
+      expect(FORMATTERS['stack-trace'].format('java.lang.RuntimeException: a at x.Y.z(Y.java:1) at x.Y.main(Y.java:2) Caused by: java.io.IOException: b at x.Z.r(Z.java:3) ... 2 more')).toBe([
+        'java.lang.RuntimeException: a',
+        '    at x.Y.z(Y.java:1)',
+        '    at x.Y.main(Y.java:2)',
+        'Caused by: java.io.IOException: b',
+        '    at x.Z.r(Z.java:3)',
+        '    ... 2 more',
+      ].join('\n'))
+    })
+
+    it('should indent Python frames and their source lines', () => {
+      expect(FORMATTERS['stack-trace'].format('Traceback (most recent call last):\nFile "a.py", line 3, in <module>\nmain()\nValueError: bad')).toBe([
+        'Traceback (most recent call last):',
+        '  File "a.py", line 3, in <module>',
+        '    main()',
+        'ValueError: bad',
+      ].join('\n'))
+    })
+  })
+
+  describe('yaml', () => {
+    it('should remove common indentation and trailing whitespace', () => {
+      expect(FORMATTERS.yaml.format('\n    a: 1  \n    b:\n      - c\n')).toBe('a: 1\nb:\n  - c')
+    })
+
+    it('should reject tab indentation', () => {
+      expect(FORMATTERS.yaml.format('a:\n\tb: 1')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { applyToText, collectEdits } from '../src/in-place'
+
+describe('collectEdits', () => {
+  const text = 'const a = "x\\ny"\nconst b = "plain"\nconst c = \'it\\\'s\'\n'
+
+  it('should replace whole literals, delimiters included', () => {
+    expect(collectEdits(text, 'javascript', 'all')).toEqual([
+      { start: 10, end: 16, text: 'x\ny' },
+      { start: 45, end: 52, text: 'it\'s' },
+    ])
+  })
+
+  it('should replace the literal at a cursor and the text of a selection', () => {
+    const cursor = text.indexOf('x')
+    const selection = { start: text.indexOf('it'), end: text.indexOf('it') + 5 }
+    expect(collectEdits(text, 'javascript', [selection, { start: cursor, end: cursor }])).toEqual([
+      { start: 10, end: 16, text: 'x\ny' },
+      { start: selection.start, end: selection.end, text: 'it\'s' },
+    ])
+  })
+
+  it('should keep the first of overlapping replacements', () => {
+    const cursor = text.indexOf('x')
+    expect(collectEdits(text, 'javascript', [{ start: cursor + 1, end: cursor + 1 }, { start: cursor, end: cursor }])).toHaveLength(1)
+  })
+
+  it('should skip raw literals and literals without escapes', () => {
+    expect(collectEdits('a = r"\\d+"\nb = "ok"', 'python', 'all')).toEqual([])
+    expect(collectEdits('x = `\\n`', 'go', [{ start: 5, end: 5 }])).toEqual([])
+  })
+
+  it('should keep the value of a literal with escaped backslashes', () => {
+    const [edit] = collectEdits('"a\\\\nb"', 'javascript', 'all')
+    expect(edit.text).toBe('a\\nb')
+  })
+})
+
+describe('applyToText', () => {
+  it('should apply replacements given in any order', () => {
+    expect(applyToText('0123456789', [
+      { start: 1, end: 3, text: 'a' },
+      { start: 6, end: 6, text: 'bb' },
+      { start: 8, end: 10, text: '' },
+    ].reverse())).toBe('0a345bb67')
+  })
+
+  it('should unescape a file in place', () => {
+    const text = 'msg = "a\\tb"; other = "c"'
+    expect(applyToText(text, collectEdits(text, 'javascript', 'all'))).toBe('msg = a\tb; other = "c"')
+  })
+})
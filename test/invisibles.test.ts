@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { classifyCharacter, formatCodePoint, showInvisibles } from '../src/invisibles'
+
+describe('classifyCharacter', () => {
+  it.each([
+    [0x00, 'control', 'NUL'],
+    [0x08, 'control', 'BS'],
+    [0x0B, 'control', 'VT'],
+    [0x0C, 'control', 'FF'],
+    [0x200D, 'format', 'ZWJ'],
+    [0xE0041, 'format', 'TAG'],
+    [0xA0, 'space', 'NBSP'],
+    [0x2009, 'space', ''],
+    [0x202E, 'bidi', 'RLO'],
+    [0x2066, 'bidi', 'LRI'],
+  ])('should classify %i', (codePoint, kind, name) => {
+    expect(classifyCharacter(codePoint)).toEqual({ kind, name })
+  })
+
+  it.each([0x09, 0x0A, 0x20, 0x41, 0xE9, 0x4E2D, 0x1F600])('should not classify %i', (codePoint) => {
+    expect(classifyCharacter(codePoint)).toBeNull()
+  })
+})
+
+describe('formatCodePoint', () => {
+  it('should pad to four digits', () => {
+    expect(formatCodePoint(0x0B)).toBe('U+000B')
+    expect(formatCodePoint(0x1F600)).toBe('U+1F600')
+  })
+})
+
+describe('showInvisibles', () => {
+  it('should render invisible characters as markers and count them', () => {
+    const report = showInvisibles('a\0b\u200Bc\u200Bd')
+    expect(report.text).toBe('a⟨U+0000 NUL⟩b⟨U+200B ZWSP⟩c⟨U+200B ZWSP⟩d')
+    expect(report.characters).toEqual([
+      { codePoint: 0, name: 'NUL', kind: 'control', count: 1, offset: 1 },
+      { codePoint: 0x200B, name: 'ZWSP', kind: 'format', count: 2, offset: 3 },
+    ])
+  })
+
+  it('should keep tabs and line breaks', () => {
+    const report = showInvisibles('a\tb\nc\r\nd\re')
+    expect(report.text).toBe('a\tb\nc\r\nd⟨U+000D CR⟩e')
+    expect(report.characters.map(char => char.name)).toEqual(['CR'])
+  })
+
+  it('should find bidi controls of Trojan Source text', () => {
+    const report = showInvisibles('if (access != "user\u202E \u2066// admin\u2069 \u2066") {')
+    expect(report.characters.filter(char => char.kind === 'bidi').map(char => char.name)).toEqual(['RLO', 'LRI', 'PDI'])
+    expect(report.text).toContain('⟨U+202E RLO⟩')
+  })
+
+  it('should render characters outside the BMP as one marker', () => {
+    expect(showInvisibles('\u{E0068}\u{E0069}').text).toBe('⟨U+E0068 TAG⟩⟨U+E0069 TAG⟩')
+  })
+
+  it('should find words mixing scripts', () => {
+    const report = showInvisibles('pay at pаypal.com or аpple_2')
+    expect(report.mixedScriptWords).toEqual([
+      { word: 'pаypal', scripts: ['Latin', 'Cyrillic'], offset: 7 },
+      { word: 'аpple_2', scripts: ['Cyrillic', 'Latin'], offset: 21 },
+    ])
+  })
+
+  it('should not report words of a single script', () => {
+    const report = showInvisibles('Привет мир, hello world, καλημέρα, café 42')
+    expect(report.mixedScriptWords).toEqual([])
+    expect(report.characters).toEqual([])
+  })
+})
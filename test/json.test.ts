@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { expandNestedJson, stringifyExpandedJson } from '../src/json'
+
+describe('expandNestedJson', () => {
+  it('should expand string values holding objects and arrays', () => {
+    const { value, expanded } = expandNestedJson({ body: '{"user":{"id":1}}', tags: '[1,2]' })
+    expect(value).toEqual({ body: { user: { id: 1 } }, tags: [1, 2] })
+    expect(expanded.size).toBe(2)
+  })
+
+  it('should expand recursively', () => {
+    const inner = JSON.stringify({ b: 1 })
+    const outer = JSON.stringify({ a: inner })
+    const { value, expanded } = expandNestedJson({ payload: outer })
+    expect(value).toEqual({ payload: { a: { b: 1 } } })
+    expect(expanded.size).toBe(2)
+  })
+
+  it('should keep strings that are not JSON objects or arrays', () => {
+    const input = { a: '42', b: '"quoted"', c: '{not json}', d: 'plain', e: 'null' }
+    const { value, expanded } = expandNestedJson(input)
+    expect(value).toEqual(input)
+    expect(expanded.size).toBe(0)
+  })
+
+  it('should expand inside arrays', () => {
+    expect(expandNestedJson(['{"a":1}', 2]).value).toEqual([{ a: 1 }, 2])
+  })
+})
+
+describe('stringifyExpandedJson', () => {
+  it('should match JSON.stringify when nothing was expanded', () => {
+    const value = { a: 1, b: [true, null, 'x'], c: {}, d: [], e: { f: [{ g: 'h' }] } }
+    expect(stringifyExpandedJson(expandNestedJson(value))).toBe(JSON.stringify(value, null, 2))
+  })
+
+  it('should mark expanded values with a comment', () => {
+    const result = stringifyExpandedJson(expandNestedJson({ id: 1, body: '{"user":"alice"}', list: ['[1]'] }))
+    expect(result).toBe([
+      '{',
+      '  "id": 1,',
+      '  // expanded from string',
+      '  "body": {',
+      '    "user": "alice"',
+      '  },',
+      '  "list": [',
+      '    // expanded from string',
+      '    [',
+      '      1',
+      '    ]',
+      '  ]',
+      '}',
+    ].join('\n'))
+  })
+
+  it('should mark an expanded root value', () => {
+    expect(stringifyExpandedJson(expandNestedJson('{"a":1}'))).toBe('// expanded from string\n{\n  "a": 1\n}')
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { trackRange } from '../src/live-range'
+
+const range = { start: 10, end: 20, lost: false }
+
+describe('trackRange', () => {
+  it('should shift the range by edits before it and ignore edits after it', () => {
+    expect(trackRange(range, [{ rangeOffset: 2, rangeLength: 3, text: 'abcdef' }])).toEqual({ start: 13, end: 23, lost: false })
+    expect(trackRange(range, [{ rangeOffset: 25, rangeLength: 5, text: '' }])).toEqual(range)
+  })
+
+  it('should grow the range with text typed inside it or at its ends', () => {
+    expect(trackRange(range, [{ rangeOffset: 15, rangeLength: 0, text: 'ab' }])).toEqual({ start: 10, end: 22, lost: false })
+    expect(trackRange(range, [{ rangeOffset: 10, rangeLength: 0, text: 'ab' }])).toEqual({ start: 10, end: 22, lost: false })
+    expect(trackRange(range, [{ rangeOffset: 20, rangeLength: 0, text: 'ab' }])).toEqual({ start: 10, end: 22, lost: false })
+  })
+
+  it('should apply several changes from the end of the document', () => {
+    const changes = [
+      { rangeOffset: 0, rangeLength: 1, text: '' },
+      { rangeOffset: 12, rangeLength: 2, text: 'x' },
+      { rangeOffset: 30, rangeLength: 0, text: 'tail' },
+    ]
+    expect(trackRange(range, changes)).toEqual({ start: 9, end: 18, lost: false })
+  })
+
+  it('should lose the range when its delimiters are deleted', () => {
+    expect(trackRange(range, [{ rangeOffset: 9, rangeLength: 12, text: '' }]).lost).toBe(true)
+    expect(trackRange(range, [{ rangeOffset: 10, rangeLength: 10, text: '' }])).toEqual({ start: 10, end: 10, lost: false })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { ALL_FIELDS, parseLogLine } from '../src/log-lines'
+
+const options = { fields: ['message', 'stack'] }
+
+describe('parseLogLine', () => {
+  it('should take multi-line fields out of the record', () => {
+    const line = JSON.stringify({ level: 'error', message: 'first\nsecond', stack: 'Error: x\n    at f (a.js:1:1)' })
+    expect(parseLogLine(line, options)).toEqual({
+      rest: { level: 'error' },
+      fields: [
+        { path: 'message', text: 'first\nsecond' },
+        { path: 'stack', text: 'Error: x\n    at f (a.js:1:1)' },
+      ],
+    })
+  })
+
+  it('should not unescape decoded values a second time', () => {
+    const line = '{"message":"path C:\\\\new\\\\table done"}'
+    expect(parseLogLine(line, options)).toEqual({
+      rest: { message: 'path C:\\new\\table done' },
+      fields: [],
+    })
+  })
+
+  it('should keep single-line and unselected fields in the record', () => {
+    const line = JSON.stringify({ message: 'tab\there', other: 'x\ny' })
+    expect(parseLogLine(line, options)).toEqual({
+      rest: { message: 'tab\there', other: 'x\ny' },
+      fields: [],
+    })
+  })
+
+  it('should match nested fields by name or dotted path', () => {
+    const line = JSON.stringify({ error: { stack: 'a\nb', cause: { detail: 'c\nd' } }, time: 1 })
+    expect(parseLogLine(line, { fields: ['stack', 'error.cause.detail'] })).toEqual({
+      rest: { time: 1 },
+      fields: [
+        { path: 'error.stack', text: 'a\nb' },
+        { path: 'error.cause.detail', text: 'c\nd' },
+      ],
+    })
+  })
+
+  it('should select every string field with *', () => {
+    const line = JSON.stringify({ a: 'x\ny', b: { c: 'z\nw' }, d: [1] })
+    expect(parseLogLine(line, { fields: [ALL_FIELDS] })?.fields.map(field => field.path)).toEqual(['a', 'b.c'])
+  })
+
+  it.each([
+    'plain log line',
+    '{not json}',
+    '[1, 2]',
+    '',
+  ])('should not parse %j', (line) => {
+    expect(parseLogLine(line, options)).toBeNull()
+  })
+})
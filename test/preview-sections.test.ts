@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { joinPreviewSections } from '../src/preview-sections'
+
+describe('joinPreviewSections', () => {
+  it('should put each section under a header naming its location', () => {
+    expect(joinPreviewSections([
+      { location: '1:5', content: 'a\tb' },
+      { location: '3:2', content: 'c' },
+    ])).toEqual({ content: '──── 1:5 ────\na\tb\n\n──── 3:2 ────\nc', language: undefined })
+  })
+
+  it('should write headers and errors as comments in JSON previews', () => {
+    expect(joinPreviewSections([
+      { location: '1:1', content: '{}', language: 'json' },
+      { location: '2:1', error: 'Invalid JSON format' },
+    ])).toEqual({ content: '// ──── 1:1 ────\n{}\n\n// ──── 2:1 ────\n// Invalid JSON format', language: 'jsonc' })
+  })
+
+  it('should keep a language shared by every section only', () => {
+    expect(joinPreviewSections([
+      { location: '1:1', content: 'SELECT 1', language: 'sql' },
+      { location: '2:1', content: 'SELECT 2', language: 'sql' },
+    ]).language).toBe('sql')
+    expect(joinPreviewSections([
+      { location: '1:1', content: 'SELECT 1', language: 'sql' },
+      { location: '2:1', content: '<a/>', language: 'xml' },
+    ]).language).toBeUndefined()
+  })
+})
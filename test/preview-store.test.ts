@@ -0,0 +1,122 @@
+import type { Memento } from 'vscode'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  clearPreviewHistory,
+  createPreviewPath,
+  getPreviewContent,
+  getPreviewHistory,
+  loadPreviewHistory,
+  onDidChangePreviewHistory,
+  recordPreview,
+  releasePreview,
+  setPreviewContent,
+  setPreviewPinned,
+  trimPreviewHistory,
+} from '../src/services/preview-store'
+
+/**
+ * A workspace state kept in memory, serialized like the real one
+ */
+function createState(): Memento {
+  const values = new Map<string, unknown>()
+  return {
+    keys: () => [...values.keys()],
+    get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+    update: async (key: string, value: unknown) => {
+      values.set(key, JSON.parse(JSON.stringify(value)))
+    },
+  }
+}
+
+function record(name: string, maxEntries = 10): string {
+  const path = createPreviewPath(name)
+  setPreviewContent(path, `content of ${name}`)
+  recordPreview({ path, content: `content of ${name}`, decoder: 'Generic', timestamp: 0 }, maxEntries)
+  return path
+}
+
+let state: Memento
+
+beforeEach(() => {
+  state = createState()
+  loadPreviewHistory(state)
+})
+
+describe('preview store', () => {
+  it('should make unique paths', () => {
+    expect(createPreviewPath('preview', '.json')).toBe('/preview-1.json')
+    expect(createPreviewPath('preview')).toBe('/preview-2')
+  })
+
+  it('should list the newest previews first and keep the most recent ones', () => {
+    record('a', 2)
+    record('b', 2)
+    record('c', 2)
+    expect(getPreviewHistory().map(entry => entry.path)).toEqual(['/c-3', '/b-2'])
+  })
+
+  it('should keep pinned previews first and beyond the limit', () => {
+    const a = record('a', 1)
+    setPreviewPinned(a, true)
+    record('b', 1)
+    record('c', 1)
+    expect(getPreviewHistory().map(entry => [entry.path, entry.pinned])).toEqual([['/a-1', true], ['/c-3', false]])
+
+    trimPreviewHistory(0)
+    clearPreviewHistory()
+    expect(getPreviewHistory().map(entry => entry.path)).toEqual(['/a-1'])
+  })
+
+  it('should release closed documents, keeping the content of recorded previews', () => {
+    const recorded = record('a')
+    const other = createPreviewPath('diff')
+    setPreviewContent(other, 'diff')
+
+    releasePreview(recorded)
+    releasePreview(other)
+    expect(getPreviewContent(recorded)).toBe('content of a')
+    expect(getPreviewContent(other)).toBeUndefined()
+  })
+
+  it('should update the content of recorded previews', () => {
+    const path = record('live')
+    setPreviewContent(path, 'updated')
+    releasePreview(path)
+    expect(getPreviewContent(path)).toBe('updated')
+  })
+
+  it('should persist the history and the next path across reloads', () => {
+    const path = record('a')
+    setPreviewPinned(path, true)
+
+    loadPreviewHistory(state)
+    expect(getPreviewHistory()).toEqual([
+      { path, content: 'content of a', decoder: 'Generic', timestamp: 0, pinned: true },
+    ])
+    expect(createPreviewPath('b')).toBe('/b-2')
+  })
+
+  it('should not save live updates, and cut long content when saving', () => {
+    const path = record('live')
+    setPreviewContent(path, 'x'.repeat(100_000))
+    loadPreviewHistory(state)
+    expect(getPreviewContent(path)).toBe('content of live')
+
+    record('long')
+    setPreviewContent('/long-2', 'y'.repeat(100_000))
+    record('other')
+    loadPreviewHistory(state)
+    const [, long] = getPreviewHistory()
+    expect(long.content).toHaveLength(64 * 1024)
+    expect(long.truncated).toBe(true)
+  })
+
+  it('should notify listeners of changes', () => {
+    let changes = 0
+    const listener = onDidChangePreviewHistory(() => changes++)
+    record('a')
+    listener.dispose()
+    record('b')
+    expect(changes).toBe(1)
+  })
+})
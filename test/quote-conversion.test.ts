@@ -0,0 +1,158 @@
+import type { LiteralFormId } from '../src/quote-conversion'
+import type { QuoteStyle } from '../src/services/string-extractor'
+import { describe, expect, it } from 'vitest'
+import { detectDialect } from '../src/dialects'
+import { escapeForQuoteStyle } from '../src/escape'
+import { convertLiteral } from '../src/quote-conversion'
+import { extractLiteralsFromText } from '../src/services/string-extractor'
+import { unescapeForQuoteStyle } from '../src/unescape'
+
+const double: QuoteStyle = { open: '"', close: '"', supportsEscape: true, multiLine: false }
+const template: QuoteStyle = { open: '`', close: '`', supportsEscape: true, multiLine: true }
+
+/**
+ * Parse a literal with the grammars of a language and get its value
+ */
+function valueOf(literal: string, languageId: string): string {
+  const spans = extractLiteralsFromText(literal, languageId)
+  expect(spans).toHaveLength(1)
+  const [{ start, end, contentStart, contentEnd, quoteStyle }] = spans
+  expect([start, end]).toEqual([0, literal.length])
+  return unescapeForQuoteStyle(literal.slice(contentStart, contentEnd), quoteStyle, detectDialect(languageId, quoteStyle))
+}
+
+/**
+ * Convert the literal parsed from a text
+ */
+function convert(literal: string, languageId: string): Record<string, string> {
+  const [{ contentStart, contentEnd, quoteStyle }] = extractLiteralsFromText(literal, languageId)
+  const conversions = convertLiteral(literal.slice(contentStart, contentEnd), quoteStyle, languageId)
+  return Object.fromEntries(conversions.map(({ form, text }) => [form, text]))
+}
+
+describe('convertLiteral', () => {
+  it('should convert between quotes, adjusting the escapes of quotes only', () => {
+    expect(convert('\'it\\\'s "ok"\\n\\u00e9\'', 'typescript')).toEqual({
+      double: '"it\'s \\"ok\\"\\n\\u00e9"',
+      template: '`it\'s "ok"\n\\u00e9`',
+    })
+    expect(convert('"say \\"hi\\""', 'javascript').single).toBe('\'say "hi"\'')
+  })
+
+  it('should convert to multi-line forms', () => {
+    expect(convert('"a\\nb"', 'javascript').template).toBe('`a\nb`')
+    expect(convert('"a\\nb"', 'python')['triple-double']).toBe('"""a\nb"""')
+    expect(convert('`a\nb`', 'javascript').double).toBe('"a\\nb"')
+    expect(convert('\'\'\'a\nb\'\'\'', 'python').single).toBe('\'a\\nb\'')
+  })
+
+  it('should convert to raw strings when the content allows it', () => {
+    expect(convert('"C:\\\\dir\\\\file"', 'go')['go-raw']).toBe('`C:\\dir\\file`')
+    expect(convert('"a\\\\d+\\"b"', 'rust')['rust-raw']).toBe('r#"a\\d+"b"#')
+    expect(convert('"a\\\\d+"', 'rust')['rust-raw']).toBe('r"a\\d+"')
+    expect(convert('"a\\\\"', 'rust')['rust-raw']).toBe('r"a\\"')
+    expect(convert('"\\\\w+"', 'python')['raw-double']).toBe('r"\\w+"')
+    expect(convert('"say \\"hi\\""', 'csharp').verbatim).toBe('@"say ""hi"""')
+    expect(convert('`C:\\dir`', 'go').double).toBe('"C:\\\\dir"')
+    expect(convert('r##"a"#b"##', 'rust').double).toBe('"a\\"#b"')
+  })
+
+  it('should not offer lossy conversions', () => {
+    expect(convert('"a`b"', 'go')).toEqual({})
+    expect(convert('"a\\rb"', 'rust')).toEqual({})
+    expect(convert('"a\\nb"', 'python')).not.toHaveProperty('raw-double')
+    expect(convert('"a\\\\"', 'python')).not.toHaveProperty('raw-double')
+    expect(convert('"a\\"b"', 'python')).not.toHaveProperty('raw-double')
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(convert('"cost: ${price}"', 'javascript')).not.toHaveProperty('template')
+  })
+
+  it('should read line breaks of multi-line literals as the compiler does', () => {
+    expect(convert('`a\r\nb`', 'javascript').double).toBe('"a\\nb"')
+    expect(convert('\'\'\'a\r\nb\'\'\'', 'python').double).toBe('"a\\nb"')
+    expect(convert('@"a\r\nb"', 'csharp').double).toBe('"a\\r\\nb"')
+  })
+
+  it('should not convert literals without a static value', () => {
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(convertLiteral('a${b}c', template, 'javascript')).toEqual([])
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(convertLiteral('a\\${b}c', template, 'javascript').map(({ form }) => form)).toEqual(['double', 'single'])
+    expect(convertLiteral('a\\q\\x4', double, 'python')).toEqual([])
+  })
+
+  it('should leave other forms and languages alone', () => {
+    expect(convert('f"{a}"', 'python')).toEqual({})
+    expect(convert('b"ab"', 'rust')).toEqual({})
+    expect(convert('"ab"', 'json')).toEqual({})
+    expect(convert('"ab"', 'c')).toEqual({})
+  })
+
+  describe('round trips', () => {
+    const values = [
+      'plain',
+      'it\'s "quoted"',
+      'back\\slash\\',
+      'line\nbreak',
+      'tab\tand\r\ncrlf',
+      'café ☕ 😀',
+      // eslint-disable-next-line no-template-curly-in-string
+      'cost: ${price}',
+      '`ticks`',
+      '"""',
+      'ends with "',
+      'hash "# and "##',
+      '\u0000\u001B[0m',
+      '',
+    ]
+
+    const nonRaw: LiteralFormId[] = ['double', 'single', 'triple-double', 'triple-single']
+
+    it.each<[string, LiteralFormId[], Record<string, LiteralFormId[]>]>([
+      // eslint-disable-next-line no-template-curly-in-string
+      ['javascript', ['double', 'single', 'template'], { 'cost: ${price}': ['double', 'single'] }],
+      ['json5', ['double', 'single'], {}],
+      ['python', [...nonRaw, 'raw-double', 'raw-single'], {
+        'it\'s "quoted"': nonRaw,
+        'back\\slash\\': nonRaw,
+        'line\nbreak': nonRaw,
+        'tab\tand\r\ncrlf': nonRaw,
+        '"""': [...nonRaw, 'raw-single'],
+        'ends with "': [...nonRaw, 'raw-single'],
+        'hash "# and "##': [...nonRaw, 'raw-single'],
+        '\u0000\u001B[0m': nonRaw,
+      }],
+      ['go', ['double', 'go-raw'], {
+        'tab\tand\r\ncrlf': ['double'],
+        '`ticks`': ['double'],
+        '\u0000\u001B[0m': ['double'],
+      }],
+      ['rust', ['double', 'rust-raw'], {
+        'tab\tand\r\ncrlf': ['double'],
+        '\u0000\u001B[0m': ['double'],
+      }],
+      ['csharp', ['double', 'verbatim'], {
+        'tab\tand\r\ncrlf': ['double'],
+        '\u0000\u001B[0m': ['double'],
+      }],
+    ])('should keep the value of %s literals in every form', (languageId, forms, exceptions) => {
+      for (const value of values) {
+        const expected = (exceptions[value] ?? forms).slice().sort()
+        const literal = `"${escapeForQuoteStyle(value, double, detectDialect(languageId, double))}"`
+        expect(valueOf(literal, languageId)).toBe(value)
+
+        const literals: Record<string, string> = { double: literal, ...convert(literal, languageId) }
+        expect(Object.keys(literals).sort(), JSON.stringify(value)).toEqual(expected)
+
+        for (const [form, text] of Object.entries(literals)) {
+          const conversions = convert(text, languageId)
+          expect(Object.keys(conversions).sort(), `from ${form} of ${JSON.stringify(value)}`)
+            .toEqual(expected.filter(other => other !== form))
+          for (const [other, converted] of Object.entries(conversions)) {
+            expect(valueOf(converted, languageId), `${form} to ${other} of ${JSON.stringify(value)}`).toBe(value)
+          }
+        }
+      }
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { formatSnippet, languageIdForPath, parseQuery, searchDecodedText } from '../src/search'
+
+describe('parseQuery', () => {
+  it('should match plain text literally, ignoring case', () => {
+    const pattern = parseQuery('a.b (c)')!
+    expect(pattern.test('A.B (C)')).toBe(true)
+    expect(pattern.test('axb (c)')).toBe(false)
+  })
+
+  it('should match whitespace in plain text with any whitespace', () => {
+    const pattern = parseQuery('Hello World')!
+    expect(pattern.test('hello\nworld')).toBe(true)
+    expect(pattern.test('Hello \r\n\tWorld')).toBe(true)
+    expect(pattern.test('HelloWorld')).toBe(false)
+  })
+
+  it('should parse /pattern/flags as a regular expression', () => {
+    const pattern = parseQuery('/hello\\s+world/gi')!
+    expect(pattern.flags).toBe('i')
+    expect(pattern.test('Hello\nWorld')).toBe(true)
+  })
+
+  it('should reject invalid regular expressions', () => {
+    expect(parseQuery('/(unclosed/')).toBeNull()
+  })
+})
+
+describe('languageIdForPath', () => {
+  it.each([
+    ['src/app.TS', 'typescript'],
+    ['fixtures/data.jsonl', 'jsonl'],
+    ['main.rs', 'rust'],
+    ['README', undefined],
+    ['notes.txt', undefined],
+  ])('should map %s', (path, languageId) => {
+    expect(languageIdForPath(path)).toBe(languageId)
+  })
+})
+
+describe('searchDecodedText', () => {
+  it('should match the unescaped content of literals', () => {
+    const text = 'const a = "Hello\\nWorld"\nconst b = "Hello World"\n'
+    const matches = searchDecodedText(text, 'typescript', parseQuery('/hello\\sworld/i')!)
+    expect(matches.map(match => text.slice(match.contentStart, match.contentEnd))).toEqual(['Hello\\nWorld', 'Hello World'])
+    expect(matches[0]).toMatchObject({ decoded: 'Hello\nWorld', matchStart: 0, matchEnd: 11 })
+  })
+
+  it('should match plain text across escaped line breaks', () => {
+    const matches = searchDecodedText('const a = "Hello\\nWorld"', 'typescript', parseQuery('Hello World')!)
+    expect(matches).toHaveLength(1)
+  })
+
+  it('should find text hidden by escaped quotes and unicode escapes', () => {
+    const text = '{"snapshot": "<p class=\\"caf\\u00e9\\">"}'
+    const matches = searchDecodedText(text, 'json', parseQuery('class="café"')!)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].decoded).toBe('<p class="café">')
+  })
+
+  it('should not unescape raw literals', () => {
+    const text = 'x = r"a\\nb"'
+    expect(searchDecodedText(text, 'python', parseQuery('a\nb')!)).toEqual([])
+    expect(searchDecodedText(text, 'python', parseQuery('a\\nb')!)).toHaveLength(1)
+  })
+
+  it('should ignore matches outside literals', () => {
+    expect(searchDecodedText('Hello // "World"', 'javascript', parseQuery('Hello')!)).toEqual([])
+  })
+})
+
+describe('formatSnippet', () => {
+  it('should show the match on one line with context', () => {
+    const decoded = `${'x'.repeat(40)}line\nbreak${'y'.repeat(40)}`
+    const snippet = formatSnippet({ contentStart: 0, contentEnd: 0, decoded, matchStart: 40, matchEnd: 50 })
+    expect(snippet).toBe(`…${'x'.repeat(30)}line⏎break${'y'.repeat(30)}…`)
+  })
+})
@@ -0,0 +1,90 @@
+import { Buffer } from 'node:buffer'
+import { deflateSync, gzipSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { formatBytes, smartDecode } from '../src/smart-decode'
+
+const options = { dialect: 'generic', maxSteps: 10 } as const
+
+function base64(data: string | Uint8Array, urlSafe = false): string {
+  const encoded = Buffer.from(data).toString('base64')
+  return urlSafe ? encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : encoded
+}
+
+function chain(text: string): string[] {
+  return smartDecode(text, options).map(step => step.id)
+}
+
+describe('smartDecode', () => {
+  it('should decode Base64 text', () => {
+    const steps = smartDecode(base64('hello world'), options)
+    expect(steps).toEqual([{ id: 'base64', value: 'hello world' }])
+  })
+
+  it('should decompress gzip inside Base64 and format JSON', () => {
+    const steps = smartDecode(base64(gzipSync('{"a":[1,2]}')), options)
+    expect(steps.map(step => step.id)).toEqual(['base64', 'gzip', 'json'])
+    expect(steps[2]).toEqual({ id: 'json', value: '{\n  "a": [\n    1,\n    2\n  ]\n}', final: true })
+  })
+
+  it('should inflate zlib data', () => {
+    expect(chain(base64(deflateSync('compressed text')))).toEqual(['base64', 'deflate'])
+  })
+
+  it('should not inflate data beyond the size limit', () => {
+    const steps = smartDecode(base64(gzipSync('a'.repeat(2 * 1024 * 1024))), options)
+    expect(steps.map(step => step.id)).toEqual(['base64'])
+  })
+
+  it('should decode a JWT', () => {
+    const token = [
+      base64('{"alg":"HS256","typ":"JWT"}', true),
+      base64('{"sub":"42"}', true),
+      'c2lnbmF0dXJl',
+    ].join('.')
+    const [step] = smartDecode(token, options)
+    expect(step.id).toBe('jwt')
+    expect(JSON.parse(step.value as string)).toEqual({
+      header: { alg: 'HS256', typ: 'JWT' },
+      payload: { sub: '42' },
+      signature: 'c2lnbmF0dXJl',
+    })
+  })
+
+  it('should chain percent-encoding, escapes and JSON', () => {
+    expect(chain('%22%7B%5C%22a%5C%22%3A1%7D%22')).toEqual(['url', 'json', 'json'])
+    expect(chain('{\\"a\\":\\"b\\"}')).toEqual(['backslash', 'json'])
+  })
+
+  it('should follow a JSON string holding Base64', () => {
+    const steps = smartDecode(JSON.stringify(base64('plain text')), options)
+    expect(steps.map(step => step.id)).toEqual(['json', 'base64'])
+    expect(steps[1].value).toBe('plain text')
+  })
+
+  it('should leave plain text and binary Base64 alone', () => {
+    expect(chain('hello world')).toEqual([])
+    expect(chain('HelloWorld')).toEqual([])
+    expect(chain(base64(new Uint8Array([0, 1, 2, 3, 255, 254, 253, 252])))).toEqual([])
+  })
+
+  it('should stop at the step limit', () => {
+    const text = base64(base64(base64('deeply nested')))
+    expect(smartDecode(text, { ...options, maxSteps: 2 })).toHaveLength(2)
+    expect(smartDecode(text, options).at(-1)?.value).toBe('deeply nested')
+  })
+
+  it('should keep binary results as bytes', () => {
+    const steps = smartDecode(base64(gzipSync(new Uint8Array([0, 159, 146, 150]))), options)
+    expect(steps.map(step => step.id)).toEqual(['base64', 'gzip'])
+    expect(steps[1].value).toEqual(new Uint8Array([0, 159, 146, 150]))
+  })
+})
+
+describe('formatBytes', () => {
+  it('should show offsets and 16 bytes per line', () => {
+    const bytes = Uint8Array.from({ length: 18 }, (_, index) => index)
+    expect(formatBytes(bytes)).toBe(
+      '00000000  00 01 02 03 04 05 06 07 08 09 0a 0b 0c 0d 0e 0f\n00000010  10 11',
+    )
+  })
+})
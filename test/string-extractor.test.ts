@@ -1,25 +1,31 @@
-import { describe, expect, it } from 'vitest'
-import { extractStringAtPosition, extractStringWithDetails } from '../src/services/string-extractor'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { setCustomGrammars } from '../src/services/literal-grammars'
+import { extractAllStrings, extractStringAtPosition, extractStringWithDetails } from '../src/services/string-extractor'
 
-// Mock TextDocument for testing
-function createMockDocument(content: string) {
-  const lines = content.split('\n')
-  let offset = 0
-  const lineOffsets = lines.map((line) => {
-    const start = offset
-    offset += line.length + 1 // +1 for newline
-    return start
-  })
+// Mock TextDocument for testing, with LF or CRLF line endings
+function createMockDocument(content: string, languageId?: string) {
+  const lines = content.split(/\r?\n/)
+  const lineOffsets = [0, ...[...content.matchAll(/\r?\n/g)].map(match => match.index! + match[0].length)]
 
   return {
+    languageId,
+    version: 1,
     getText: () => content,
     lineAt: (line: number) => ({ text: lines[line] }),
+    offsetAt: (position: { line: number, character: number }) => lineOffsets[position.line] + position.character,
     positionAt: (offset: number) => {
-      let line = 0
-      while (line < lineOffsets.length - 1 && lineOffsets[line + 1] <= offset) {
-        line++
+      let low = 0
+      let high = lineOffsets.length - 1
+      while (low < high) {
+        const middle = (low + high + 1) >> 1
+        if (lineOffsets[middle] <= offset) {
+          low = middle
+        }
+        else {
+          high = middle - 1
+        }
       }
-      return { line, character: offset - lineOffsets[line] }
+      return { line: low, character: offset - lineOffsets[low] }
     },
   }
 }
@@ -274,6 +280,19 @@ describe('extractStringWithDetails', () => {
     expect(result!.quoteStyle.close).toBe('"')
     expect(result!.start).toEqual({ line: 0, character: 10 })
     expect(result!.end).toEqual({ line: 0, character: 17 })
+    expect(result!.contentStart).toEqual({ line: 0, character: 11 })
+    expect(result!.contentEnd).toEqual({ line: 0, character: 16 })
+  })
+
+  it('should return content range of a raw string with delimiter prefix', () => {
+    const doc = createMockDocument('let x = r#"say "hi""#;')
+    const pos = createPosition(0, 12)
+
+    const result = extractStringWithDetails(doc as any, pos as any)
+    expect(result).not.toBeNull()
+    expect(result!.content).toBe('say "hi"')
+    expect(result!.contentStart).toEqual({ line: 0, character: 11 })
+    expect(result!.contentEnd).toEqual({ line: 0, character: 19 })
   })
 
   it('should identify triple quote style', () => {
@@ -286,3 +305,232 @@ describe('extractStringWithDetails', () => {
     expect(result!.quoteStyle.multiLine).toBe(true)
   })
 })
+
+describe('extractAllStrings', () => {
+  it('should extract every string in document order', () => {
+    const doc = createMockDocument('const a = "one", b = \'two\'\nconst c = `three\nlines`')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['one', 'two', 'three\nlines'])
+    expect(result[2].start).toEqual({ line: 1, character: 10 })
+    expect(result[2].end).toEqual({ line: 2, character: 6 })
+  })
+
+  it('should not start strings inside other strings', () => {
+    const doc = createMockDocument('x = "it\'s" + \'say "hi"\'')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['it\'s', 'say "hi"'])
+  })
+
+  it('should prefer longer delimiters', () => {
+    const doc = createMockDocument('a = """x "y" z"""\nb = r"""raw\\n"""')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['x "y" z', 'raw\\n'])
+    expect(result[1].quoteStyle.prefix).toBe('r')
+    expect(result[1].quoteStyle.open).toBe('"""')
+  })
+
+  it('should handle escaped quotes and raw strings', () => {
+    const doc = createMockDocument('"a\\"b" r#"c"d"# @"e""f"')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['a\\"b', 'c"d', 'e', 'f'])
+  })
+
+  it('should not treat identifier endings as prefixes', () => {
+    const doc = createMockDocument('for"x" fr"y"')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.quoteStyle.prefix)).toEqual([undefined, undefined])
+  })
+
+  it('should skip unterminated single-line strings', () => {
+    const doc = createMockDocument('don\'t\n"ok"')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['ok'])
+  })
+
+  it('should return an empty list when there are no strings', () => {
+    expect(extractAllStrings(createMockDocument('const x = 1') as any)).toEqual([])
+  })
+})
+
+describe('literal index', () => {
+  afterEach(() => setCustomGrammars({}))
+
+  it('should find strings on CRLF lines', () => {
+    const doc = createMockDocument('const a = "one"\r\nconst b = "two"\r\nconst c = `x\r\ny` + "three"', 'javascript')
+
+    expect(extractStringAtPosition(doc as any, createPosition(1, 12) as any)).toBe('two')
+    expect(extractStringAtPosition(doc as any, createPosition(3, 8) as any)).toBe('three')
+    expect(extractStringWithDetails(doc as any, createPosition(1, 12) as any)!.start).toEqual({ line: 1, character: 10 })
+  })
+
+  it('should scan a document version once', () => {
+    const doc = createMockDocument('a = "one" + "two"')
+    const getText = vi.spyOn(doc, 'getText')
+
+    expect(extractStringAtPosition(doc as any, createPosition(0, 5) as any)).toBe('one')
+    expect(extractStringAtPosition(doc as any, createPosition(0, 13) as any)).toBe('two')
+    expect(extractAllStrings(doc as any)).toHaveLength(2)
+    expect(getText).toHaveBeenCalledTimes(1)
+  })
+
+  it('should rescan when the document version changes', () => {
+    const doc = createMockDocument('a = "one"')
+    expect(extractStringAtPosition(doc as any, createPosition(0, 5) as any)).toBe('one')
+
+    Object.assign(doc, { version: 2, getText: () => 'a = "new"' })
+    expect(extractStringAtPosition(doc as any, createPosition(0, 5) as any)).toBe('new')
+  })
+
+  it('should rescan when the grammars from settings change', () => {
+    const doc = createMockDocument('a = <x>', 'markdown')
+    expect(extractAllStrings(doc as any)).toEqual([])
+
+    setCustomGrammars({ markdown: [{ open: '<', close: '>' }] })
+    expect(extractAllStrings(doc as any).map(r => r.content)).toEqual(['x'])
+  })
+
+  it('should scan large files once for many lookups', () => {
+    const line = '{"level":"info","msg":"request \\"GET /api\\" done","data":"{\\"id\\":1}","note":\'it\\\'s\'}'
+    const doc = createMockDocument(Array.from({ length: 5_000 }, () => line).join('\r\n'))
+    const getText = vi.spyOn(doc, 'getText')
+
+    expect(extractStringAtPosition(doc as any, createPosition(0, 25) as any)).toBe('request \\"GET /api\\" done')
+    for (let i = 0; i < 1_000; i++) {
+      const result = extractStringWithDetails(doc as any, createPosition(i * 5 % 5_000, 60) as any)
+      expect(result?.content).toBe('{\\"id\\":1}')
+    }
+    expect(extractAllStrings(doc as any)).toHaveLength(5_000 * 8)
+    expect(getText).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('language grammars', () => {
+  const contents = (content: string, languageId: string): string[] =>
+    extractAllStrings(createMockDocument(content, languageId) as any).map(r => r.content)
+
+  afterEach(() => setCustomGrammars({}))
+
+  it('should extract C++ raw strings with a delimiter', () => {
+    const doc = createMockDocument('auto s = R"xy(a ")" b)xy"; auto t = u8R"(c)";', 'cpp')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['a ")" b', 'c'])
+    expect(result[0].quoteStyle.close).toBe(')xy"')
+    expect(result[0].quoteStyle.prefixDisablesEscape).toBe(true)
+    expect(result[1].quoteStyle.prefix).toBe('u8R')
+  })
+
+  it('should extract Swift extended delimiter strings', () => {
+    expect(contents('let s = #"say "hi"\\n"#; let t = ##"a"#b"##', 'swift')).toEqual(['say "hi"\\n', 'a"#b'])
+  })
+
+  it('should extract Swift multi-line strings without the last line break', () => {
+    const doc = createMockDocument(['let s = """', '    one', '    two', '    """'].join('\n'), 'swift')
+
+    const [result] = extractAllStrings(doc as any)
+    expect(result.content).toBe('    one\n    two')
+    expect(result.quoteStyle.stripIndent).toBe('common')
+  })
+
+  it('should extract Java text blocks from the line after the opening', () => {
+    const doc = createMockDocument(['String s = """', '    <p>"hi"</p>', '    """;'].join('\n'), 'java')
+
+    const [result] = extractAllStrings(doc as any)
+    expect(result.content).toBe('    <p>"hi"</p>\n    ')
+    expect(result.contentStart).toEqual({ line: 1, character: 0 })
+    expect(result.quoteStyle.stripIndent).toBe('common')
+  })
+
+  it('should extract Kotlin raw strings', () => {
+    const doc = createMockDocument('val s = """C:\\dir\n"quoted" """', 'kotlin')
+
+    const [result] = extractAllStrings(doc as any)
+    expect(result.content).toBe('C:\\dir\n"quoted" ')
+    expect(result.quoteStyle.supportsEscape).toBe(false)
+  })
+
+  it('should extract Go raw strings without escapes', () => {
+    const doc = createMockDocument('s := `a\\`\nt := "b"', 'go')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['a\\', 'b'])
+    expect(result[0].quoteStyle.supportsEscape).toBe(false)
+  })
+
+  it('should extract Lua long brackets and skip long comments', () => {
+    expect(contents('--[[ no ]]\nlocal s = [==[\na]]b]==] .. [[c]]', 'lua')).toEqual(['a]]b', 'c'])
+  })
+
+  it('should extract shell here-documents', () => {
+    const doc = createMockDocument(['cat <<EOF > out', 'a "b"', 'EOF', 'cat <<-\'END\'', '\tc', '\tEND', 'x <<< "y"'].join('\n'), 'shellscript')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['a "b"\n', '\tc\n', 'y'])
+    expect(result[0].end).toEqual({ line: 2, character: 3 })
+    expect(result[1].quoteStyle.stripIndent).toBe('tabs')
+  })
+
+  it('should extract Ruby percent literals with nested brackets', () => {
+    const doc = createMockDocument('a = %q{x {y}} + %Q(z\\n) + %[w] + b % (c)', 'ruby')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['x {y}', 'z\\n', 'w'])
+    expect(result[0].quoteStyle.prefixDisablesEscape).toBe(true)
+    expect(result[1].quoteStyle.supportsEscape).toBe(true)
+  })
+
+  it('should extract Ruby single-quoted strings across lines', () => {
+    const doc = createMockDocument(['a = \'x', 'y\' + "z"'].join('\n'), 'ruby')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['x\ny', 'z'])
+    expect(result[0].quoteStyle.multiLine).toBe(true)
+  })
+
+  it('should extract PHP heredocs and nowdocs', () => {
+    const doc = createMockDocument(['$a = <<<\'EOT\'', '    raw \\n', '    EOT;', '$b = <<<EOT', 'x', 'EOT;'].join('\n'), 'php')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.content)).toEqual(['    raw \\n', 'x'])
+    expect(result[0].quoteStyle.prefixDisablesEscape).toBe(true)
+    expect(result[1].quoteStyle.supportsEscape).toBe(true)
+  })
+
+  it('should extract Python strings with prefix combinations', () => {
+    const doc = createMockDocument('a = rb"\\x" + Rb\'\\y\' + fr"{z}" + u"w" + B"v"', 'python')
+
+    const result = extractAllStrings(doc as any)
+    expect(result.map(r => r.quoteStyle.prefix)).toEqual(['rb', 'Rb', 'fr', 'u', 'B'])
+    expect(result.map(r => Boolean(r.quoteStyle.prefixDisablesEscape))).toEqual([true, true, true, false, false])
+  })
+
+  it('should extract C# verbatim strings with doubled quotes', () => {
+    expect(contents('var s = @"say ""hi"""; var t = $@"{x}""";', 'csharp')).toEqual(['say ""hi""', '{x}""'])
+  })
+
+  it('should extract Rust raw and byte strings', () => {
+    expect(contents('let s = r##"a"#b"##; let t = br"c\\"; let u = "d\ne";', 'rust')).toEqual(['a"#b', 'c\\', 'd\ne'])
+  })
+
+  it('should only extract double-quoted strings in JSON', () => {
+    expect(contents('{"a": "it\'s"}', 'json')).toEqual(['a', 'it\'s'])
+  })
+
+  it('should fall back to the common quote styles for other languages', () => {
+    expect(contents('r"a" `b` \'c\'', 'plaintext')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should try grammars from settings first', () => {
+    setCustomGrammars({ markdown: [{ open: '<<', close: '>>', supportsEscape: false }] })
+
+    const result = extractAllStrings(createMockDocument('x <<a "b">> "c"', 'markdown') as any)
+    expect(result.map(r => r.content)).toEqual(['a "b"', 'c'])
+    expect(result[0].quoteStyle.prefixDisablesEscape).toBe(true)
+  })
+})
@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest'
+import { mapUnescapeRange, unescapeDetailed, unescapeDetailedForQuoteStyle, unescapeForQuoteStyle, unescapeLayers } from '../src/unescape'
+
+describe('unescapeDetailed', () => {
+  describe('astral plane', () => {
+    it('should decode surrogate pair escapes', () => {
+      expect(unescapeDetailed('\\uD83D\\uDE00')).toEqual({ text: '😀', issues: [] })
+    })
+
+    it('should decode code points above U+FFFF', () => {
+      expect(unescapeDetailed('\\u{1F600}', 'javascript')).toEqual({ text: '😀', issues: [] })
+      expect(unescapeDetailed('\\U0001F600', 'python')).toEqual({ text: '😀', issues: [] })
+    })
+
+    it('should flag a lone high surrogate', () => {
+      expect(unescapeDetailed('a\\uD83Db')).toEqual({
+        text: 'a\uD83Db',
+        issues: [{ kind: 'lone-surrogate', offset: 1, length: 6 }],
+      })
+    })
+
+    it('should flag a lone low surrogate', () => {
+      expect(unescapeDetailed('\\uDE00').issues).toEqual([{ kind: 'lone-surrogate', offset: 0, length: 6 }])
+    })
+
+    it('should flag a high surrogate followed by text', () => {
+      expect(unescapeDetailed('\\uD83D \\uDE00').issues).toEqual([
+        { kind: 'lone-surrogate', offset: 0, length: 6 },
+        { kind: 'lone-surrogate', offset: 7, length: 6 },
+      ])
+    })
+
+    it('should flag two high surrogates in a row', () => {
+      expect(unescapeDetailed('\\uD83D\\uD83D\\uDE00').issues).toEqual([
+        { kind: 'lone-surrogate', offset: 0, length: 6 },
+      ])
+    })
+  })
+
+  describe('issues', () => {
+    it('should report unknown escapes', () => {
+      expect(unescapeDetailed('a\\qb')).toEqual({
+        text: 'a\\qb',
+        issues: [{ kind: 'unknown', offset: 1, length: 2 }],
+      })
+    })
+
+    it('should report truncated escapes', () => {
+      expect(unescapeDetailed('\\u12 \\xZ')).toEqual({
+        text: '\\u12 \\xZ',
+        issues: [
+          { kind: 'truncated', offset: 0, length: 4 },
+          { kind: 'truncated', offset: 5, length: 2 },
+        ],
+      })
+    })
+
+    it('should report a backslash at the end of the text', () => {
+      expect(unescapeDetailed('abc\\').issues).toEqual([{ kind: 'truncated', offset: 3, length: 1 }])
+    })
+
+    it('should report invalid values', () => {
+      expect(unescapeDetailed('\\u{110000}', 'javascript').issues).toEqual([{ kind: 'invalid', offset: 0, length: 10 }])
+      expect(unescapeDetailed('\\xFF', 'rust').issues).toEqual([{ kind: 'invalid', offset: 0, length: 4 }])
+      expect(unescapeDetailed('\\N{NOPE}', 'python').issues).toEqual([{ kind: 'unresolved', offset: 0, length: 8 }])
+    })
+
+    it('should report escapes that are invalid in the dialect', () => {
+      expect(unescapeDetailed('\\x41\\v', 'json').issues).toEqual([
+        { kind: 'unknown', offset: 0, length: 2 },
+        { kind: 'unknown', offset: 4, length: 2 },
+      ])
+    })
+
+    it('should report invalid UTF-8 byte sequences', () => {
+      expect(unescapeDetailed('ok \\xff\\xfe', 'c')).toEqual({
+        text: 'ok \xFF\xFE',
+        issues: [{ kind: 'invalid-utf8', offset: 3, length: 8 }],
+      })
+    })
+
+    it('should not report anything for valid input', () => {
+      expect(unescapeDetailed('\\n\\t\\u0041\\\\').issues).toEqual([])
+    })
+  })
+
+  describe('categories', () => {
+    it('should keep escapes of other categories as written', () => {
+      expect(unescapeDetailed('\\u00e9\\n\\x41\\\\u0041\\101', 'python', { categories: ['unicode', 'hex'] })).toEqual({
+        text: 'é\\nA\\\\u0041\\101',
+        issues: [],
+      })
+    })
+
+    it('should decode byte escapes together when selected', () => {
+      expect(unescapeDetailed('\\xc3\\xa9\\t', 'go', { categories: ['hex'] }).text).toBe('é\\t')
+      expect(unescapeDetailed('\\xc3\\xa9\\t', 'go', { categories: ['simple'] }).text).toBe('\\xc3\\xa9\t')
+    })
+  })
+})
+
+describe('unescapeLayers', () => {
+  const isJson = (text: string): boolean => {
+    try {
+      JSON.parse(text)
+      return true
+    }
+    catch {
+      return false
+    }
+  }
+
+  it('should remove one layer with a depth limit of 1', () => {
+    expect(unescapeLayers('\\\\n', 'generic', { maxDepth: 1 })).toEqual({ text: '\\n', issues: [], depth: 1 })
+  })
+
+  it('should remove layers until the text stops changing', () => {
+    expect(unescapeLayers('a\\\\\\\\nb', 'generic', { maxDepth: 10 })).toEqual({ text: 'a\nb', issues: [], depth: 3 })
+  })
+
+  it('should report zero layers for plain text', () => {
+    expect(unescapeLayers('plain', 'generic', { maxDepth: 10 }).depth).toBe(0)
+  })
+
+  it('should stop at the depth limit', () => {
+    expect(unescapeLayers('\\\\\\\\\\\\\\\\', 'generic', { maxDepth: 2 })).toEqual({ text: '\\\\', issues: [], depth: 2 })
+  })
+
+  it('should stop at the first layer that is valid JSON', () => {
+    const tripleEscaped = '{\\\\\\"a\\\\\\":\\\\\\"b\\\\\\\\n\\\\\\"}'
+    expect(unescapeLayers(tripleEscaped, 'generic', { maxDepth: 10, done: isJson })).toEqual({
+      text: '{"a":"b\\n"}',
+      issues: [],
+      depth: 2,
+    })
+  })
+
+  it('should report issues of the first layer only', () => {
+    expect(unescapeLayers('\\q\\\\n', 'generic', { maxDepth: 10 }).issues).toEqual([{ kind: 'unknown', offset: 0, length: 2 }])
+  })
+})
+
+describe('unescapeForQuoteStyle', () => {
+  const textBlock = { open: '"""', close: '"""', supportsEscape: true, multiLine: true, stripIndent: 'common' as const }
+
+  it('should strip the indentation common to the lines and the closing line', () => {
+    expect(unescapeForQuoteStyle('    <p>\n      hi\\t  \n    </p>\n    ', textBlock, 'java')).toBe('<p>\n  hi\t\n</p>\n')
+  })
+
+  it('should keep indentation in front of the closing delimiter', () => {
+    expect(unescapeForQuoteStyle('    a\n  ', textBlock, 'java')).toBe('  a\n')
+  })
+
+  it('should strip leading tabs only', () => {
+    expect(unescapeForQuoteStyle('\t\ta\n\t  b\n', { ...textBlock, supportsEscape: false, stripIndent: 'tabs' })).toBe('a\n  b\n')
+  })
+})
+
+describe('unescapeDetailedForQuoteStyle', () => {
+  const raw = { open: '"', close: '"', supportsEscape: false, multiLine: false, prefix: 'r', prefixDisablesEscape: true }
+  const verbatim = { ...raw, multiLine: true, prefix: '@' }
+
+  it('should keep the body of raw literals as is', () => {
+    expect(unescapeDetailedForQuoteStyle('\\d+', raw, 'python')).toEqual({
+      text: '\\d+',
+      issues: [],
+      segments: [{ kind: 'text', inputStart: 0, inputEnd: 3, outputStart: 0, outputEnd: 3 }],
+    })
+  })
+
+  it('should map the doubled quotes of verbatim strings', () => {
+    const { text, segments } = unescapeDetailedForQuoteStyle('a""\\b', verbatim)
+    expect(text).toBe('a"\\b')
+    expect(segments).toEqual([
+      { kind: 'text', inputStart: 0, inputEnd: 1, outputStart: 0, outputEnd: 1 },
+      { kind: 'escape', inputStart: 1, inputEnd: 3, outputStart: 1, outputEnd: 2 },
+      { kind: 'text', inputStart: 3, inputEnd: 5, outputStart: 2, outputEnd: 4 },
+    ])
+  })
+
+  it('should unescape other literals', () => {
+    expect(unescapeDetailedForQuoteStyle('a\\tb', { ...raw, prefix: undefined, supportsEscape: true, prefixDisablesEscape: false }).text).toBe('a\tb')
+  })
+})
+
+describe('mapUnescapeRange', () => {
+  const map = (text: string, dialect: Parameters<typeof unescapeDetailed>[1] = 'generic') => {
+    const { text: output, segments } = unescapeDetailed(text, dialect, { mapping: true })
+    return {
+      output,
+      toInput: (start: number, end = start) => {
+        const range = mapUnescapeRange(segments!, start, end, 'output')
+        return text.slice(range.start, range.end)
+      },
+      toOutput: (start: number, end = start) => {
+        const range = mapUnescapeRange(segments!, start, end, 'input')
+        return output.slice(range.start, range.end)
+      },
+    }
+  }
+
+  it('should cover input and output without gaps', () => {
+    const text = 'a\\nb\\x41\\qc\\u00e9'
+    const { segments, text: output } = unescapeDetailed(text, 'generic', { mapping: true })
+    expect(segments![0]).toMatchObject({ inputStart: 0, outputStart: 0 })
+    expect(segments!.at(-1)).toMatchObject({ inputEnd: text.length, outputEnd: output.length })
+    segments!.slice(1).forEach((segment, index) => {
+      expect(segment.inputStart).toBe(segments![index].inputEnd)
+      expect(segment.outputStart).toBe(segments![index].outputEnd)
+    })
+  })
+
+  it('should map output characters to the escape sequence that produced them', () => {
+    const { output, toInput } = map('ab\\ncd\\u00e9')
+    expect(output).toBe('ab\ncdé')
+    expect(toInput(1)).toBe('b')
+    expect(toInput(2)).toBe('\\n')
+    expect(toInput(4)).toBe('d')
+    expect(toInput(5)).toBe('\\u00e9')
+    expect(toInput(1, 4)).toBe('b\\nc')
+  })
+
+  it('should map input offsets inside a sequence to its output', () => {
+    const { toOutput } = map('x\\ty')
+    expect(toOutput(0)).toBe('x')
+    expect(toOutput(1)).toBe('\t')
+    expect(toOutput(2)).toBe('\t')
+    expect(toOutput(0, 4)).toBe('x\ty')
+  })
+
+  it('should map UTF-8 byte escapes decoded together as one span', () => {
+    const { output, toInput, toOutput } = map('a\\xe2\\x9c\\x93b', 'go')
+    expect(output).toBe('a✓b')
+    expect(toInput(1)).toBe('\\xe2\\x9c\\x93')
+    expect(toOutput(5)).toBe('✓')
+  })
+
+  it('should map surrogate pair escapes one code unit each', () => {
+    const { output, toInput } = map('\\uD83D\\uDE00!')
+    expect(output).toBe('😀!')
+    expect(toInput(0)).toBe('\\uD83D')
+    expect(toInput(1)).toBe('\\uDE00')
+    expect(toInput(2)).toBe('!')
+  })
+
+  it('should map malformed sequences as text', () => {
+    const { output, toInput } = map('\\q')
+    expect(output).toBe('\\q')
+    expect(toInput(0)).toBe('\\')
+    expect(toInput(1)).toBe('q')
+  })
+
+  it('should map the end of the text to the end', () => {
+    const { toInput, toOutput } = map('a\\n')
+    expect(toInput(2)).toBe('')
+    expect(toOutput(3)).toBe('')
+  })
+
+  it('should not return a mapping unless asked', () => {
+    expect(unescapeDetailed('\\n').segments).toBeUndefined()
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { escapeNonAscii, unescapeUnicode } from '../src/unicode-escapes'
+
+describe('escapeNonAscii', () => {
+  it('should escape non-ASCII characters only', () => {
+    expect(escapeNonAscii('greeting=Grüße\\n\n')).toBe('greeting=Gr\\u00fc\\u00dfe\\n\n')
+    expect(escapeNonAscii('日本')).toBe('\\u65e5\\u672c')
+  })
+
+  it.each([
+    ['generic', '\\ud83d\\ude00'],
+    ['json', '\\ud83d\\ude00'],
+    ['java', '\\ud83d\\ude00'],
+    ['javascript', '\\u{1f600}'],
+    ['python', '\\U0001f600'],
+    ['go', '\\U0001f600'],
+    ['rust', '\\u{1f600}'],
+  ] as const)('should escape astral characters for %s', (dialect, escaped) => {
+    expect(escapeNonAscii('😀', dialect)).toBe(escaped)
+  })
+
+  it('should use braces for every character in Rust', () => {
+    expect(escapeNonAscii('é', 'rust')).toBe('\\u{e9}')
+  })
+})
+
+describe('unescapeUnicode', () => {
+  it('should decode unicode and hex escapes only', () => {
+    expect(unescapeUnicode('Gr\\u00fc\\u00dfe\\n\\t\\x41')).toBe('Grüße\\n\\tA')
+    expect(unescapeUnicode('\\U0001F600 \\N{BULLET}', 'python')).toBe('😀 \\N{BULLET}')
+    expect(unescapeUnicode('\\xe2\\x9c\\x93', 'c')).toBe('✓')
+  })
+
+  it('should be the reverse of escapeNonAscii', () => {
+    const text = 'Grüße, 日本 😀\\n'
+    for (const dialect of ['generic', 'javascript', 'python', 'go', 'rust'] as const) {
+      expect(unescapeUnicode(escapeNonAscii(text, dialect), dialect)).toBe(text)
+    }
+  })
+
+  it('should keep escapes of invisible and syntax characters', () => {
+    expect(unescapeUnicode('\\u0022\\u005c\\u000a\\u200b\\u202e\\u0000')).toBe('\\u0022\\u005c\\u000a\\u200b\\u202e\\u0000')
+  })
+
+  it('should keep escapes of placeholder and regular expression characters', () => {
+    expect(unescapeUnicode('`\\u0024{x}` /\\x2e\\x2A/ \\x41', 'javascript')).toBe('`\\u0024{x}` /\\x2e\\x2A/ A')
+  })
+
+  it('should keep malformed and escaped sequences', () => {
+    expect(unescapeUnicode('\\ud83d! \\u12 \\\\u00e9')).toBe('\\ud83d! \\u12 \\\\u00e9')
+    expect(unescapeUnicode('\\x41', 'json')).toBe('\\x41')
+  })
+})